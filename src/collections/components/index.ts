@@ -5,6 +5,8 @@ export {
     ContextualActions,
     ContextualActionsStyle,
     DragLayerStyle,
+    EntityTableOptions,
+    EntityTableProps,
     getDraggedItems,
     LineProps,
     LineStyle,
@@ -14,6 +16,7 @@ export {
     ListStyle,
     ListWrapper,
     ListWrapperStyle,
+    makeEntityTable,
     OperationListItem,
     StoreList,
     storeListFor,
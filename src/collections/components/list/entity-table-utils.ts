@@ -0,0 +1,27 @@
+import {Entity, FieldEntry} from "../../../entity";
+
+/**
+ * Détermine les colonnes d'un tableau construit à partir d'une entité.
+ * @param entity L'entité.
+ * @param columns Champs à afficher en colonnes, dans l'ordre. Par défaut : tous les champs (hors objets et listes) de l'entité.
+ * @param sortable Colonnes triables : toutes (`true`) ou celles précisées.
+ * @returns Les champs affichés, les libellés des colonnes et les colonnes triables.
+ */
+export function getEntityColumns<E extends Entity>(
+    entity: E,
+    columns?: (keyof E["fields"])[],
+    sortable: boolean | (keyof E["fields"])[] = false
+) {
+    const keys = ((columns as string[]) || Object.keys(entity.fields)).filter(
+        key => entity.fields[key] && entity.fields[key].type === "field"
+    );
+
+    return {
+        keys,
+        labels: keys.reduce((cols, key) => ({...cols, [key]: (entity.fields[key] as FieldEntry).label}), {} as {
+            [field: string]: string;
+        }),
+        sortableColumns:
+            sortable === true ? keys : ((sortable || []) as string[]).filter(key => keys.indexOf(key) !== -1)
+    };
+}
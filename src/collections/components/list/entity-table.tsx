@@ -0,0 +1,79 @@
+import {observer} from "mobx-react";
+import * as React from "react";
+
+import {Display} from "../../../components";
+import {Entity, EntityToType, FieldEntry, isEntityField, StoreNode} from "../../../entity";
+
+import {getEntityColumns} from "./entity-table-utils";
+import {LineProps} from "./line";
+
+/** Options pour construire un tableau à partir d'une entité. */
+export interface EntityTableOptions<E extends Entity, T> {
+    /** Rendu personnalisé des cellules, par champ. */
+    cells?: {[P in keyof E["fields"]]?: (data: T) => React.ReactNode};
+    /** Champs à afficher en colonnes, dans l'ordre. Par défaut : tous les champs (hors objets et listes) de l'entité. */
+    columns?: (keyof E["fields"])[];
+    /** Colonnes triables (StoreTable uniquement) : toutes (`true`) ou celles précisées. */
+    sortable?: boolean | (keyof E["fields"])[];
+}
+
+/** Props de tableau construites à partir d'une entité, à passer à un `Table` ou un `StoreTable`. */
+export interface EntityTableProps<T> {
+    /** La description des colonnes du tableau avec leur libellés. */
+    columns: {[field: string]: string};
+    /** Le composant de ligne. */
+    RowComponent: React.ComponentType<LineProps<T>>;
+    /** Les colonnes sur lesquelles on peut trier. */
+    sortableColumns: (keyof T)[];
+}
+
+/**
+ * Construit les colonnes et le composant de ligne d'un tableau à partir d'une entité :
+ * les libellés sont ceux des champs, et les cellules sont affichées via le `DisplayComponent` et le `displayFormatter` de leur domaine.
+ *
+ * Le composant de ligne étant créé à chaque appel, il ne faut pas appeler cette fonction dans un `render`.
+ * @param entity L'entité.
+ * @param options Les options du tableau.
+ */
+export function makeEntityTable<E extends Entity, T = EntityToType<E> | StoreNode<E>>(
+    entity: E,
+    {cells = {}, columns, sortable = false}: EntityTableOptions<E, T> = {}
+): EntityTableProps<T> {
+    const {keys, labels, sortableColumns} = getEntityColumns(entity, columns, sortable);
+    const cellRenderers = cells as {[key: string]: ((data: T) => React.ReactNode) | undefined};
+
+    return {
+        columns: labels,
+        RowComponent: observer(({data}: LineProps<T>) => (
+            <tr>
+                {keys.map(key => {
+                    const renderCell = cellRenderers[key];
+                    return (
+                        <td key={key}>
+                            {renderCell
+                                ? renderCell(data)
+                                : renderValue(entity.fields[key] as FieldEntry, (data as any)[key])}
+                        </td>
+                    );
+                })}
+            </tr>
+        )),
+        sortableColumns: sortableColumns as (keyof T)[]
+    };
+}
+
+/**
+ * Affiche la valeur d'un champ avec le composant et le formatteur d'affichage de son domaine.
+ * @param field Les métadonnées du champ.
+ * @param item La valeur (ou le champ, pour une ligne issue d'un noeud de store).
+ */
+function renderValue({domain}: FieldEntry, item: any) {
+    const {DisplayComponent = Display, displayFormatter, displayProps = {}} = domain;
+    return (
+        <DisplayComponent
+            {...displayProps}
+            formatter={displayFormatter}
+            value={isEntityField(item) ? item.value : item}
+        />
+    );
+}
@@ -2,6 +2,7 @@ export {ActionBar, actionBarFor, ActionBarStyle} from "./action-bar";
 export {ContextualActions, ContextualActionsStyle, OperationListItem} from "./contextual-actions";
 export {getDraggedItems} from "./dnd-utils";
 export {DragLayerStyle} from "./drag-layer";
+export {EntityTableOptions, EntityTableProps, makeEntityTable} from "./entity-table";
 export {LineProps, LineStyle} from "./line";
 export {List, DetailProps, EmptyProps, listFor} from "./list";
 export {ListBase, ListStyle} from "./list-base";
@@ -6,10 +6,14 @@ import {getIcon} from "../icon";
 
 /** Props des boutons du Panel. */
 export interface PanelButtonsProps {
+    /** Handler du bouton delete (affiché en consultation). */
+    delete?: () => void;
     /** Etat d'édition. */
     editing?: boolean;
     /** Préfixe i18n. Par défaut : "focus" */
     i18nPrefix?: string;
+    /** Formulaire de création : le bouton save devient un bouton create. */
+    isNew?: boolean;
     /** En cours de chargement */
     loading?: boolean;
     /** Fonction pour changer de mode. */
@@ -18,15 +22,23 @@ export interface PanelButtonsProps {
     save?: () => void;
 }
 
-/** Buttons par défaut du panel : edit / save / cancel. */
-export function PanelButtons({editing, i18nPrefix = "focus", loading, toggleEdit, save}: PanelButtonsProps) {
+/** Buttons par défaut du panel : edit / delete / save (ou create) / cancel. */
+export function PanelButtons({
+    delete: onDelete,
+    editing,
+    i18nPrefix = "focus",
+    isNew,
+    loading,
+    toggleEdit,
+    save
+}: PanelButtonsProps) {
     if (toggleEdit) {
         if (editing) {
             return (
                 <span>
                     <Button
                         icon={getIcon(`${i18nPrefix}.icons.button.save`)}
-                        label={i18next.t(`${i18nPrefix}.button.save`)}
+                        label={i18next.t(`${i18nPrefix}.button.${isNew ? "create" : "save"}`)}
                         primary={true}
                         onClick={save}
                         type="submit"
@@ -42,11 +54,21 @@ export function PanelButtons({editing, i18nPrefix = "focus", loading, toggleEdit
             );
         } else {
             return (
-                <Button
-                    icon={getIcon(`${i18nPrefix}.icons.button.edit`)}
-                    label={i18next.t(`${i18nPrefix}.button.edit`)}
-                    onClick={() => toggleEdit(true)}
-                />
+                <span>
+                    <Button
+                        icon={getIcon(`${i18nPrefix}.icons.button.edit`)}
+                        label={i18next.t(`${i18nPrefix}.button.edit`)}
+                        onClick={() => toggleEdit(true)}
+                    />
+                    {onDelete ? (
+                        <Button
+                            icon={getIcon(`${i18nPrefix}.icons.button.delete`)}
+                            label={i18next.t(`${i18nPrefix}.button.delete`)}
+                            onClick={onDelete}
+                            disabled={loading}
+                        />
+                    ) : null}
+                </span>
             );
         }
     }
@@ -101,7 +101,9 @@ export class Panel extends React.Component<PanelProps> {
             Buttons = PanelButtons,
             buttonsPosition = "top",
             children,
+            delete: onDelete,
             i18nPrefix,
+            isNew,
             loading,
             title,
             showHelp,
@@ -114,8 +116,10 @@ export class Panel extends React.Component<PanelProps> {
         const buttons = (theme: PanelStyle) => (
             <div className={theme.actions}>
                 <Buttons
+                    delete={onDelete}
                     editing={editing}
                     i18nPrefix={i18nPrefix}
+                    isNew={isNew}
                     loading={loading}
                     save={!this.isInForm ? save : undefined}
                     toggleEdit={toggleEdit}
@@ -1,5 +1,11 @@
 /** Config Focus de l'application */
 export const config = {
+    /** Délai entre la saisie d'un champ et l'appel de ses validateurs asynchrones. */
+    asyncValidationDelay: 300,
+
+    /** Délai en dessous duquel deux modifications successives d'un formulaire sont regroupées dans la même étape de son historique. */
+    formHistoryGroupDelay: 500,
+
     /** Durée de cache par défaut pour les listes de référence. */
     referenceCacheDuration: 3600000, // 1h.
 
@@ -1,11 +1,22 @@
 /* tslint:disable */
 import "ignore-styles";
 
-import {isObservableArray} from "mobx";
+import {isObservableArray, observable, when} from "mobx";
 import test = require("tape");
 
+import {getEntityColumns} from "../../collections/components/list/entity-table-utils";
+import {config} from "../../config";
+import {addLeaveGuard, canLeave} from "../../router/guard";
+import {ViewStore} from "../../router/store";
+import {extendEntity, omitEntity, pickEntity} from "../entity";
+import {makeFormActions} from "../form/actions";
+import {getEntryKeys, getFieldKind, getRowKey} from "../form/auto-form-utils";
+import {getDraftKey, MemoryDraftStorage} from "../form/draft";
+import {makeFormWizard} from "../form/wizard";
 import {makeFormNode} from "../form/node";
-import {makeEntityStore, toFlatValues} from "../store";
+import {makeEntityStore, patchNodeValidators, resetTouched, setServerErrors, toFlatValues} from "../store";
+import {EntityField, FieldEntry, Validator} from "../types";
+import {validateField} from "../validation";
 import {LigneEntity} from "./ligne";
 import {OperationEntity} from "./operation";
 import {ProjetEntity} from "./projet";
@@ -48,10 +59,12 @@ test("EntityStore: Création", t => {
     t.deepEqual(
         store.operation,
         {
+            $entity: OperationEntity,
             id: {$field: id, value: undefined},
             numero: {$field: numero, value: undefined},
             montant: {$field: montant, value: undefined},
             structure: {
+                $entity: StructureEntity,
                 id: {$field: StructureEntity.fields.id, value: undefined},
                 nom: {$field: StructureEntity.fields.nom, value: undefined},
                 siret: {$field: StructureEntity.fields.siret, value: undefined},
@@ -434,3 +447,1483 @@ test("FormNode: Création", t => {
 
     t.end();
 });
+
+test("FormNode: isDirty et getChanges", t => {
+    const store = getStore();
+    store.replace({operation, projetTest});
+    const formNode = makeFormNode(store.operation);
+    const formNode2 = makeFormNode(store.projetTest);
+
+    t.equal(formNode.form.isDirty, false, "Un FormNode fraîchement créé n'est pas modifié.");
+    t.deepEqual(formNode.getChanges(), {}, "Un FormNode fraîchement créé n'a pas de modifications.");
+
+    formNode.montant.value = 1000;
+    formNode.structure.nom.value = "yolo";
+    t.equal(formNode.montant.isDirty, true, "Le champ modifié est bien marqué comme modifié.");
+    t.equal(formNode.numero.isDirty, false, "Le champ non modifié n'est pas marqué comme modifié.");
+    t.equal(formNode.structure.form.isDirty, true, "Le sous-noeud modifié est bien marqué comme modifié.");
+    t.equal(formNode.form.isDirty, true, "Le FormNode est bien marqué comme modifié.");
+    t.deepEqual(
+        formNode.getChanges(),
+        {montant: 1000, structure: {nom: "yolo"}},
+        "Les modifications ne contiennent que les champs modifiés."
+    );
+
+    formNode.montant.value = operation.montant;
+    t.equal(formNode.montant.isDirty, false, "Un champ remis à sa valeur initiale n'est plus modifié.");
+
+    formNode.reset();
+    t.equal(formNode.form.isDirty, false, "Le FormNode n'est plus modifié après un reset.");
+
+    t.equal(formNode2.ligneList.form.isDirty, false, "Une liste fraîchement créée n'est pas modifiée.");
+    formNode2.ligneList[0].id.value = 15;
+    formNode2.ligneList.remove(formNode2.ligneList[1]);
+    formNode2.ligneList.pushNode({id: 8});
+    t.equal(formNode2.ligneList.form.isDirty, true, "La liste modifiée est bien marquée comme modifiée.");
+    t.deepEqual(
+        formNode2.getChanges(),
+        {ligneList: {added: [{id: 8}], modified: [{index: 0, changes: {id: 15}, value: {id: 15}}], removed: [{id: 6}]}},
+        "Les modifications de la liste contiennent bien les éléments ajoutés, modifiés et retirés."
+    );
+
+    formNode2.ligneList.reset();
+    t.equal(formNode2.ligneList.form.isDirty, false, "La liste n'est plus modifiée après un reset.");
+
+    t.end();
+});
+
+test("FormNode: historique", t => {
+    const store = getStore();
+    store.replace({operation, projetTest});
+    const formNode = makeFormNode(store.operation, true, undefined, {history: true, historyGroupDelay: 0});
+    const formNode2 = makeFormNode(store.projetTest, true, undefined, {history: true});
+
+    t.equal(formNode.canUndo, false, "Un FormNode fraîchement créé n'a rien à annuler.");
+
+    formNode.montant.value = 1000;
+    formNode.structure.nom.value = "yolo";
+    t.equal(formNode.canUndo, true, "Les modifications ont bien été enregistrées.");
+
+    formNode.undo();
+    t.equal(formNode.structure.nom.value, operation.structure.nom, "La dernière modification a bien été annulée.");
+    t.equal(formNode.montant.value, 1000, "La modification précédente est toujours là.");
+    t.equal(formNode.canRedo, true, "La modification annulée peut être rétablie.");
+
+    formNode.redo();
+    t.equal(formNode.structure.nom.value, "yolo", "La modification annulée a bien été rétablie.");
+
+    formNode.undo();
+    formNode.numero.value = "B12";
+    t.equal(formNode.canRedo, false, "Une nouvelle modification vide les modifications à rétablir.");
+
+    formNode2.ligneList[0].id.value = 1;
+    formNode2.ligneList[0].id.value = 12;
+    formNode2.ligneList.remove(formNode2.ligneList[1]);
+    formNode2.ligneList.pushNode({id: 8});
+    formNode2.undo();
+    t.deepEqual(
+        toFlatValues(formNode2),
+        projetTest,
+        "Des modifications rapprochées sont regroupées dans une seule étape de l'historique."
+    );
+    t.equal(formNode2.ligneList[1].sourceNode, store.projetTest.ligneList[1], "L'élément retiré a bien été réinséré.");
+
+    formNode2.redo();
+    t.deepEqual(
+        toFlatValues(formNode2),
+        {ligneList: [{id: 12}, {id: 7}, {id: 8}]},
+        "Les modifications regroupées sont bien toutes rétablies."
+    );
+
+    store.projetTest.replace({ligneList: [{id: 1}]});
+    t.equal(formNode2.canUndo || formNode2.canRedo, false, "L'historique est vidé à la mise à jour du StoreNode.");
+
+    formNode.montant.value = 999;
+    formNode.reset();
+    t.equal(formNode.canUndo, false, "L'historique est vidé à la réinitialisation du FormNode.");
+    formNode.undo();
+    t.equal(formNode.montant.value, operation.montant, "Les modifications abandonnées ne peuvent pas être rétablies.");
+
+    formNode.stopSync();
+    formNode2.stopSync();
+    t.end();
+});
+
+test("FormNode: validateurs de noeud", t => {
+    const store = makeEntityStore({
+        structure: {
+            ...StructureEntity,
+            validators: [
+                ({id, nom}: {id?: number; nom?: string}) =>
+                    id === 1 && nom === "Test" ? {id: "structure.invalid", nom: "structure.invalid"} : undefined
+            ]
+        },
+        operation: OperationEntity
+    });
+    store.replace({operation, structure: {id: 1, nom: "Test"}});
+
+    const formNode = makeFormNode(store.structure, true);
+    t.equal(formNode.id.error, "structure.invalid", "Le validateur de l'entité a bien mis en erreur le premier champ.");
+    t.equal(formNode.nom.error, "structure.invalid", "Le validateur de l'entité a bien mis en erreur le second champ.");
+    t.equal(formNode.siret.error, undefined, "Le champ non ciblé par le validateur n'est pas en erreur.");
+    t.equal(formNode.form.isValid, false, "Le FormNode est bien invalide.");
+
+    formNode.id.value = 2;
+    t.equal(formNode.form.isValid, true, "Le FormNode est à nouveau valide une fois la règle respectée.");
+
+    const formNode2 = makeFormNode(store.operation, true, entity => {
+        patchNodeValidators(
+            entity,
+            ({id, montant}) => (montant && montant > 100 && !id ? {id: "operation.idRequired"} : undefined)
+        );
+        return {};
+    });
+    formNode2.id.value = undefined;
+    t.deepEqual(
+        formNode2.form.errors,
+        {id: "operation.idRequired"},
+        "Le validateur ajouté sur le FormNode alimente bien les erreurs du formulaire."
+    );
+
+    t.end();
+});
+
+test("FormNode: validateurs asynchrones", async t => {
+    config.asyncValidationDelay = 0;
+    const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    let validations = 0;
+    const CodeEntity = {
+        name: "code",
+        fields: {
+            code: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {
+                    validator: {
+                        type: "async" as "async",
+                        value: async (code: string) => {
+                            validations++;
+                            await wait(code === "lent" ? 30 : 5);
+                            return code !== "libre" && "code.exists";
+                        }
+                    }
+                },
+                isRequired: false,
+                name: "code",
+                label: "code"
+            }
+        }
+    };
+
+    const formNode = makeFormNode(makeEntityStore({code: CodeEntity}).code, true);
+    formNode.code.value = "pris";
+    t.equal(formNode.code.isValidating, true, "Le champ est bien en cours de validation.");
+    t.equal(formNode.form.isValidating, true, "Le FormNode est bien en cours de validation.");
+
+    await when(() => !formNode.form.isValidating);
+    t.equal(formNode.code.error, "code.exists", "L'erreur asynchrone est bien renseignée sur le champ.");
+    t.equal(formNode.form.isValid, false, "Le FormNode est bien invalide.");
+
+    formNode.code.value = "lent";
+    await wait(10);
+    formNode.code.value = "libre";
+    await when(() => !formNode.form.isValidating);
+    await wait(30);
+    t.equal(formNode.code.error, undefined, "La réponse d'une validation obsolète a bien été ignorée.");
+
+    const formList = makeFormNode(makeEntityStore({codes: [CodeEntity]}).codes, true, undefined, {
+        history: true,
+        historyGroupDelay: 0
+    });
+    formList.pushNode({code: "libre"});
+    await when(() => !formList.form.isValidating);
+    const item = formList[0];
+    validations = 0;
+    formList.removeNode(item);
+    item.code.value = "pris";
+    await wait(20);
+    t.equal(validations, 0, "Un élément retiré de la liste ne valide plus ses champs.");
+
+    formList.undo(); // Annule la saisie.
+    formList.undo(); // Annule la suppression.
+    t.equal(formList[0], item, "L'élément retiré a été réinséré par l'historique.");
+    await when(() => !formList.form.isValidating);
+    t.equal(validations, 1, "Un élément réinséré par l'historique valide de nouveau ses champs.");
+
+    formList.stopSync();
+    formList[0].code.value = "autre";
+    await wait(20);
+    t.equal(validations, 1, "Les champs d'un FormNode désynchronisé ne sont plus validés.");
+
+    config.asyncValidationDelay = 300;
+    t.end();
+});
+
+test("FormNode: erreurs serveur", t => {
+    const store = getStore();
+    store.replace({operation, projetTest});
+    const formNode = makeFormNode(store.operation, true);
+    const formNode2 = makeFormNode(store.projetTest);
+
+    const unknownErrors = setServerErrors(formNode, {
+        montant: "Montant refusé",
+        "structure.nom": "Nom refusé",
+        "operation.numero": "Numéro refusé",
+        inconnu: "Erreur inconnue"
+    });
+    t.equal(formNode.montant.error, "Montant refusé", "L'erreur serveur est bien placée sur le champ.");
+    t.equal(formNode.structure.nom.error, "Nom refusé", "L'erreur serveur est bien placée sur le champ du sous-noeud.");
+    t.equal(formNode.numero.serverError, "Numéro refusé", "Le nom de l'entité en préfixe du chemin est bien ignoré.");
+    t.deepEqual(unknownErrors, ["Erreur inconnue"], "Les erreurs sans champ correspondant sont bien renvoyées.");
+    t.equal(formNode.form.isValid, false, "Le FormNode est bien invalide.");
+
+    formNode.montant.value = 500;
+    t.equal(formNode.montant.error, undefined, "L'erreur serveur disparaît dès que la valeur du champ change.");
+
+    setServerErrors(formNode2, {"ligneList[1].id": "Id refusé", "ligneList.2.id": "Id refusé aussi"});
+    t.equal(formNode2.ligneList[1].id.serverError, "Id refusé", "L'erreur serveur est bien placée dans la liste.");
+    t.equal(formNode2.ligneList[2].id.serverError, "Id refusé aussi", "Les deux syntaxes d'index sont gérées.");
+
+    setServerErrors(formNode);
+    t.equal(formNode.structure.nom.error, undefined, "Les erreurs serveur précédentes sont bien effacées.");
+
+    t.end();
+});
+
+test("Champs calculés", t => {
+    const FactureEntity = {
+        name: "facture",
+        fields: {
+            prix: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                isRequired: false,
+                name: "prix",
+                label: "facture.prix"
+            },
+            quantite: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                isRequired: false,
+                name: "quantite",
+                label: "facture.quantite"
+            },
+            total: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                isRequired: false,
+                name: "total",
+                label: "facture.total",
+                computed: (node: {prix: EntityField<FieldEntry<number>>; quantite: EntityField<FieldEntry<number>>}) =>
+                    (node.prix.value || 0) * (node.quantite.value || 0)
+            }
+        }
+    };
+
+    const store = makeEntityStore({facture: FactureEntity});
+    store.facture.replace({prix: 10, quantite: 2, total: 3});
+    t.equal(store.facture.total.value, 20, "Le champ calculé est bien calculé dans le StoreNode.");
+    t.deepEqual(
+        toFlatValues(store.facture),
+        {prix: 10, quantite: 2},
+        "Le champ calculé est bien exclu de toFlatValues."
+    );
+
+    store.facture.set({quantite: 3, total: 5});
+    t.equal(store.facture.total.value, 30, "Le champ calculé est bien ignoré par un set.");
+
+    const formNode = makeFormNode(store.facture, true);
+    formNode.prix.value = 20;
+    t.equal(formNode.total.value, 60, "Le champ calculé est bien recalculé à partir des valeurs du FormNode.");
+    t.equal(store.facture.total.value, 30, "Le champ calculé du StoreNode n'est pas impacté par le FormNode.");
+    t.equal(formNode.total.isEdit, false, "Le champ calculé n'est jamais en édition.");
+    t.deepEqual(formNode.getChanges(), {prix: 20}, "Le champ calculé n'apparaît pas dans les modifications.");
+
+    t.end();
+});
+
+test("StoreListNode: réconciliation par clé", t => {
+    const ProjetCleEntity = {
+        name: "projetCle",
+        fields: {
+            ligneList: {
+                type: "list" as "list",
+                entity: LigneEntity,
+                keyField: "id"
+            }
+        }
+    };
+
+    const store = makeEntityStore({projet: ProjetCleEntity});
+    store.projet.replace({ligneList: [{id: 1}, {id: 2}, {id: 3}]});
+    const [ligne1, ligne2, ligne3] = store.projet.ligneList;
+
+    store.projet.ligneList.replaceNodes([{id: 3}, {id: 1}, {id: 4}]);
+    t.deepEqual(toFlatValues(store.projet.ligneList), [{id: 3}, {id: 1}, {id: 4}], "La liste est bien remplacée.");
+    t.equal(store.projet.ligneList[0], ligne3, "Le noeud existant est bien réutilisé et déplacé.");
+    t.equal(store.projet.ligneList[1], ligne1, "Le noeud existant est bien réutilisé et déplacé.");
+    t.equal(store.projet.ligneList.indexOf(ligne2), -1, "Le noeud absent des nouvelles valeurs est bien retiré.");
+
+    store.projet.ligneList.setNodes([{id: 4}, {id: 3}]);
+    t.deepEqual(toFlatValues(store.projet.ligneList), [{id: 4}, {id: 3}], "La liste est bien mise à jour.");
+    t.equal(store.projet.ligneList[1], ligne3, "Le noeud existant est bien réutilisé par un setNodes.");
+
+    const formNode = makeFormNode(store.projet, true);
+    const formLigne3 = formNode.ligneList[1];
+    formLigne3.form.isEdit = false;
+    store.projet.ligneList.replaceNodes([{id: 3}, {id: 5}]);
+    t.equal(
+        formNode.ligneList[0],
+        formLigne3,
+        "L'élément du FormListNode est bien conservé après une mise à jour du store."
+    );
+    t.equal(formLigne3.form.isEdit, false, "L'état d'édition de l'élément est bien conservé.");
+    t.deepEqual(toFlatValues(formNode.ligneList), [{id: 3}, {id: 5}], "Le FormListNode est bien synchronisé.");
+
+    t.end();
+});
+
+test("StoreListNode: insertNode, removeNode et moveNode", t => {
+    const store = getStore();
+    store.replace({projetTest});
+    const formNode = makeFormNode(store.projetTest, true);
+    const {ligneList} = formNode;
+
+    ligneList.insertNode(1, {id: 10});
+    t.deepEqual(toFlatValues(ligneList), [{id: 5}, {id: 10}, {id: 6}, {id: 7}], "L'élément est bien inséré à l'index.");
+    t.equal(ligneList[1].form.isEdit, true, "L'élément inséré est bien un noeud de formulaire.");
+
+    t.equal(ligneList.removeNode(ligneList[2]), true, "L'élément est bien retiré.");
+    ligneList.moveNode(2, 0);
+    t.deepEqual(toFlatValues(ligneList), [{id: 7}, {id: 5}, {id: 10}], "L'élément est bien déplacé.");
+
+    ligneList[1].id.value = 50;
+    t.deepEqual(
+        ligneList.form.changes,
+        {added: [{id: 10}], modified: [{index: 1, changes: {id: 50}, value: {id: 50}}], removed: [{id: 6}]},
+        "Les modifications de la liste sont bien enregistrées."
+    );
+
+    store.projetTest.ligneList.insertNode(0, {id: 1});
+    t.deepEqual(
+        toFlatValues(store.projetTest.ligneList),
+        [{id: 1}, {id: 5}, {id: 6}, {id: 7}],
+        "L'élément est bien inséré dans le StoreListNode."
+    );
+
+    t.end();
+});
+
+test("FormNode: règles isRequired et isReadonly conditionnelles", t => {
+    const ContactEntity = {
+        name: "contact",
+        fields: {
+            type: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: true,
+                name: "type",
+                label: "contact.type"
+            },
+            email: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: (node: {type: EntityField<FieldEntry<string>>}) => node.type.value === "EMAIL",
+                isReadonly: (node: {type: EntityField<FieldEntry<string>>}) => node.type.value === "AUCUN",
+                name: "email",
+                label: "contact.email"
+            }
+        }
+    };
+
+    const formNode = makeFormNode(makeEntityStore({contact: ContactEntity}).contact, true);
+    formNode.type.value = "TEL";
+    t.equal(formNode.email.isRequired, false, "Le champ n'est pas obligatoire quand la condition n'est pas vérifiée.");
+    t.equal(formNode.email.error, undefined, "Le champ vide n'est alors pas en erreur.");
+
+    formNode.type.value = "EMAIL";
+    t.equal(formNode.email.isRequired, true, "Le champ devient obligatoire quand la condition est vérifiée.");
+    t.equal(formNode.email.error, "focus.validation.required", "Le champ vide est alors en erreur.");
+
+    formNode.type.value = "AUCUN";
+    t.equal(formNode.email.isReadonly, true, "Le champ est en lecture seule quand la condition est vérifiée.");
+    t.equal(formNode.email.isEdit, false, "Le champ en lecture seule n'est pas en édition.");
+
+    t.end();
+});
+
+test("Validateurs métier", t => {
+    const check = (validator: Validator, value: any) => validateField({$field: {domain: {validator}} as any, value});
+
+    t.equal(check({type: "siret"}, "732 829 320 00074"), undefined, "Un SIRET valide est accepté.");
+    t.equal(
+        check({type: "siret"}, "73282932000075"),
+        "focus.validation.siret",
+        "Un SIRET avec une mauvaise clé est refusé."
+    );
+    t.equal(check({type: "siret"}, "35600000000051"), undefined, "Un SIRET de La Poste est accepté.");
+    t.equal(check({type: "siren"}, "732829320"), undefined, "Un SIREN valide est accepté.");
+    t.equal(check({type: "siren"}, "73282932"), "focus.validation.siren", "Un SIREN trop court est refusé.");
+    t.equal(check({type: "iban"}, "FR14 2004 1010 0505 0001 3M02 606"), undefined, "Un IBAN valide est accepté.");
+    t.equal(
+        check({type: "iban"}, "FR15 2004 1010 0505 0001 3M02 606"),
+        "focus.validation.iban",
+        "Un IBAN invalide est refusé."
+    );
+    t.equal(check({type: "bic"}, "BNPAFRPPXXX"), undefined, "Un BIC valide est accepté.");
+    t.equal(check({type: "bic"}, "BNPA"), "focus.validation.bic", "Un BIC invalide est refusé.");
+    t.equal(check({type: "phone"}, "01 23 45 67 89"), undefined, "Un numéro de téléphone valide est accepté.");
+    t.equal(check({type: "phone"}, "+33.6.12.34.56.78"), undefined, "Un numéro international est accepté.");
+    t.equal(check({type: "phone"}, "00 23 45 67 89"), "focus.validation.phone", "Un numéro invalide est refusé.");
+    t.equal(check({type: "postalCode"}, "75001"), undefined, "Un code postal valide est accepté.");
+    t.equal(check({type: "postalCode"}, "7500"), "focus.validation.postalCode", "Un code postal invalide est refusé.");
+
+    const types = ["siret", "siren", "iban", "bic", "phone", "postalCode"];
+    for (const type of types) {
+        for (const value of ["", undefined, null]) {
+            t.equal(
+                check({type} as Validator, value),
+                undefined,
+                `Une valeur vide (${JSON.stringify(value)}) est acceptée par le validateur "${type}".`
+            );
+        }
+    }
+
+    t.end();
+});
+
+test("Messages de validation paramétrés", t => {
+    i18n.addResourceBundle("dev", "translation", {
+        focus: {
+            validation: {
+                number: "Nombre invalide",
+                number_range: "Entre {{min}} et {{max}}",
+                number_min: "Au moins {{min}}",
+                regex: "Format invalide",
+                regex_name: "Format {{- name}} attendu",
+                required: "{{- label}} obligatoire"
+            }
+        },
+        operation: {montant: "Montant"}
+    });
+    const check = (validator: Validator | undefined, value: any, isRequired = false) =>
+        validateField({$field: {domain: {validator}, isRequired, label: "operation.montant"} as any, value});
+
+    t.equal(check({type: "number", min: 0, max: 100}, 150), "Entre 0 et 100", "Les bornes sont bien dans le message.");
+    t.equal(check({type: "number", min: 0}, -1), "Au moins 0", "Le message dépend des bornes renseignées.");
+    t.equal(check({type: "number", min: 0}, "abc"), "Nombre invalide", "Un nombre invalide a le message standard.");
+    t.equal(check({regex: /^A/, name: "A..."}, "B"), "Format A... attendu", "Le nom du format est dans le message.");
+    t.equal(check({regex: /^A/}, "B"), "Format invalide", "Sans nom de format, le message standard est utilisé.");
+    t.equal(check(undefined, undefined, true), "Montant obligatoire", "Le libellé du champ est dans le message.");
+
+    i18n.removeResourceBundle("dev", "translation");
+    t.end();
+});
+
+test("FormNode: avertissements", async t => {
+    const MontantEntity = {
+        name: "montant",
+        fields: {
+            montant: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {
+                    validator: [
+                        (montant: number) => montant > 1000 && {warning: "montant.eleve"},
+                        {type: "number" as "number", max: 100000, isWarning: true, errorMessage: "montant.tresEleve"}
+                    ]
+                },
+                isRequired: false,
+                name: "montant",
+                label: "montant"
+            }
+        }
+    };
+
+    const formNode = makeFormNode(makeEntityStore({montant: MontantEntity}).montant, true);
+    formNode.montant.value = 500;
+    t.equal(formNode.montant.warning, undefined, "Pas d'avertissement sur une valeur normale.");
+    t.equal(formNode.form.hasWarnings, false, "Le FormNode n'a pas d'avertissement.");
+
+    formNode.montant.value = 5000;
+    t.equal(formNode.montant.warning, "montant.eleve", "Le validateur par fonction retourne bien un avertissement.");
+    t.equal(formNode.montant.error, undefined, "L'avertissement n'est pas une erreur.");
+    t.equal(formNode.form.isValid, true, "Le FormNode reste valide.");
+    t.deepEqual(
+        formNode.form.warnings,
+        {montant: "montant.eleve"},
+        "Les avertissements du FormNode sont bien agrégés."
+    );
+
+    formNode.montant.value = 500000;
+    t.equal(
+        formNode.montant.warning,
+        "montant.eleve, montant.tresEleve",
+        "Un validateur marqué `isWarning` retourne bien un avertissement."
+    );
+
+    let saved = 0;
+    let confirmation = false;
+    const actions = makeFormActions(
+        formNode,
+        {save: () => (saved++, Promise.resolve())},
+        {confirmWarnings: true, confirm: () => confirmation}
+    );
+    try {
+        await actions.save();
+        t.fail("La sauvegarde refusée à cause des avertissements doit être rejetée.");
+    } catch (error) {
+        t.deepEqual(
+            error.detail,
+            formNode.form.warnings,
+            "La sauvegarde refusée à cause des avertissements est rejetée avec les avertissements."
+        );
+    }
+    t.equal(saved, 0, "Le service de sauvegarde n'est pas appelé.");
+    confirmation = true;
+    await actions.save();
+    t.equal(saved, 1, "La sauvegarde confirmée malgré les avertissements est effectuée.");
+    actions.clean();
+
+    formNode.form.isEdit = true;
+    formNode.form.isEdit = false;
+    t.equal(formNode.form.hasWarnings, false, "Un champ qui n'est pas en édition n'a pas d'avertissement.");
+
+    t.end();
+});
+
+test("FormNode: champs touchés", t => {
+    const store = getStore();
+    store.operation.replace(operation);
+    store.projetTest.replace(projetTest);
+    const formNode = makeFormNode(store.operation, true);
+    const formNode2 = makeFormNode(store.projetTest, true);
+
+    t.equal(formNode.id.touched, false, "Un champ n'est pas touché à l'initialisation.");
+
+    formNode.id.touched = true;
+    formNode.structure.nom.touched = true;
+    resetTouched(formNode);
+    t.assert(
+        !formNode.id.touched && !formNode.structure.nom.touched,
+        "`resetTouched` réinitialise les champs du noeud et de ses sous-noeuds."
+    );
+
+    formNode2.ligneList[0].id.touched = true;
+    resetTouched(formNode2);
+    t.equal(formNode2.ligneList[0].id.touched, false, "`resetTouched` réinitialise les champs des listes.");
+
+    formNode.id.touched = true;
+    formNode.reset();
+    t.equal(formNode.id.touched, false, "`reset` réinitialise les champs touchés.");
+
+    t.end();
+});
+
+test("Formulaires automatiques", t => {
+    t.deepEqual(
+        getEntryKeys(OperationEntity, {}),
+        ["id", "numero", "montant", "structure"],
+        "Les entrées sont dans l'ordre de l'entité par défaut."
+    );
+    t.deepEqual(
+        getEntryKeys(OperationEntity, {order: ["structure", "montant"], hidden: ["id"]}),
+        ["structure", "montant", "numero"],
+        "Les entrées ordonnées sont affichées en premier, et les entrées masquées sont retirées."
+    );
+
+    const store = getStore();
+    const values = {valueKey: "code", labelKey: "label"} as any;
+    t.equal(getFieldKind(store.operation.numero, {}), "field", "Un champ simple est affiché avec `fieldFor`.");
+    t.equal(getFieldKind(store.operation.numero, {values}), "select", "Une liste de référence donne un select.");
+    t.equal(
+        getFieldKind(store.operation.numero, {querySearcher: async () => undefined}),
+        "autocomplete",
+        "Un service de recherche donne un autocomplete."
+    );
+    t.equal(
+        getFieldKind(
+            {$field: {...store.operation.numero.$field, domain: {AutocompleteComponent: () => null}}} as any,
+            {}
+        ),
+        "field",
+        "Un composant d'autocomplete sans service de recherche ni de résolution donne un champ simple."
+    );
+
+    store.structureList.replaceNodes(structureList);
+    const [first, second, third] = store.structureList.map(getRowKey);
+    t.equal(new Set([first, second, third]).size, 3, "Chaque élément de liste a son propre identifiant.");
+    store.structureList.removeNode(store.structureList[0]);
+    t.deepEqual(
+        store.structureList.map(getRowKey),
+        [second, third],
+        "Les éléments restants gardent leur identifiant après une suppression."
+    );
+
+    t.end();
+});
+
+test("Tableaux construits à partir d'une entité", t => {
+    t.deepEqual(
+        getEntityColumns(OperationEntity),
+        {
+            keys: ["id", "numero", "montant"],
+            labels: {id: "operation.id", numero: "operation.numero", montant: "operation.montant"},
+            sortableColumns: []
+        },
+        "Par défaut, tous les champs de l'entité (hors objets et listes) sont en colonnes, sans tri."
+    );
+    t.deepEqual(
+        getEntityColumns(OperationEntity, ["montant", "structure", "id"], true),
+        {
+            keys: ["montant", "id"],
+            labels: {montant: "operation.montant", id: "operation.id"},
+            sortableColumns: ["montant", "id"]
+        },
+        "Les colonnes choisies sont dans l'ordre donné, sans les sous-noeuds, et toutes triables."
+    );
+    t.deepEqual(
+        getEntityColumns(OperationEntity, ["numero", "montant"], ["montant", "id"]).sortableColumns,
+        ["montant"],
+        "Seules les colonnes affichées parmi celles précisées sont triables."
+    );
+
+    t.end();
+});
+
+test("Entités dérivées", t => {
+    const AuditEntity = extendEntity(OperationEntity, {
+        name: "operationAudit",
+        fields: {
+            dateCreation: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: false,
+                name: "dateCreation",
+                label: "audit.dateCreation"
+            }
+        }
+    });
+    const CritereEntity = pickEntity(OperationEntity, ["numero", "montant"], "operationCritere");
+    const SansStructureEntity = omitEntity(OperationEntity, ["structure"]);
+
+    t.equal(AuditEntity.name, "operationAudit", "`extendEntity` renomme bien l'entité.");
+    t.deepEqual(
+        Object.keys(AuditEntity.fields),
+        ["id", "numero", "montant", "structure", "dateCreation"],
+        "`extendEntity` ajoute bien les champs à ceux de l'entité de base."
+    );
+    t.deepEqual(
+        Object.keys(CritereEntity.fields),
+        ["numero", "montant"],
+        "`pickEntity` conserve bien les champs choisis."
+    );
+    t.deepEqual(
+        Object.keys(SansStructureEntity.fields),
+        ["id", "numero", "montant"],
+        "`omitEntity` retire bien les champs précisés."
+    );
+    t.equal(SansStructureEntity.name, "operation", "`omitEntity` conserve le nom de l'entité par défaut.");
+
+    const store = makeEntityStore({audit: AuditEntity, critere: CritereEntity});
+    store.audit.replace({...operation, dateCreation: "2018-10-01"});
+    store.critere.set({numero: "A324"});
+    t.equal(store.audit.dateCreation.value, "2018-10-01", "Le champ ajouté est bien construit dans le store.");
+    t.equal(
+        store.audit.structure.nom.value,
+        "Test",
+        "Les champs de l'entité de base sont bien construits dans le store."
+    );
+    t.deepEqual(toFlatValues(store.critere), {numero: "A324"}, "L'entité réduite est bien utilisable dans le store.");
+
+    t.end();
+});
+
+test("Entrées union", t => {
+    const typeField = {
+        type: "field" as "field",
+        fieldType: "",
+        domain: {},
+        isRequired: true,
+        name: "type",
+        label: "paiement.type"
+    };
+    const CarteEntity = {
+        name: "carte",
+        fields: {
+            type: typeField,
+            montant: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                isRequired: false,
+                name: "montant",
+                label: "paiement.montant"
+            },
+            numero: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: false,
+                name: "numero",
+                label: "carte.numero"
+            }
+        }
+    };
+    const VirementEntity = {
+        name: "virement",
+        fields: {
+            type: typeField,
+            montant: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                isRequired: false,
+                name: "montant",
+                label: "paiement.montant"
+            },
+            iban: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: false,
+                name: "iban",
+                label: "virement.iban"
+            }
+        }
+    };
+    const CommandeEntity = {
+        name: "commande",
+        fields: {
+            id: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                isRequired: false,
+                name: "id",
+                label: "commande.id"
+            },
+            paiement: {
+                type: "union" as "union",
+                discriminator: "type",
+                entities: {carte: CarteEntity, virement: VirementEntity}
+            }
+        }
+    };
+
+    const store = makeEntityStore({commande: CommandeEntity});
+    t.equal(store.commande.paiement, undefined, "Le sous-noeud est vide sans valeur de discriminant.");
+
+    store.commande.replace({id: 1, paiement: {type: "carte", montant: 10, numero: "4970"}});
+    const carte = store.commande.paiement!;
+    t.equal(carte.$entity, CarteEntity, "Le sous-noeud est construit avec l'entité sélectionnée par le discriminant.");
+    t.deepEqual(
+        toFlatValues(store.commande),
+        {id: 1, paiement: {type: "carte", montant: 10, numero: "4970"}},
+        "`toFlatValues` retourne bien les valeurs du sous-noeud."
+    );
+
+    store.commande.replace({id: 1, paiement: {type: "carte", montant: 20}});
+    t.equal(
+        store.commande.paiement,
+        carte,
+        "Le sous-noeud est réutilisé si le discriminant sélectionne la même entité."
+    );
+
+    store.commande.set({paiement: {type: "virement", iban: "FR76"}});
+    t.equal(
+        store.commande.paiement!.$entity,
+        VirementEntity,
+        "`set` reconstruit le sous-noeud si le discriminant change."
+    );
+    t.deepEqual(
+        toFlatValues(store.commande.paiement!),
+        {type: "virement", montant: 20, iban: "FR76"},
+        "`set` conserve les valeurs des champs communs aux deux entités."
+    );
+
+    const formNode = makeFormNode(store.commande, true);
+    t.equal(formNode.paiement!.$entity, VirementEntity, "Le FormNode contient le même sous-noeud.");
+    t.equal(formNode.form.isDirty, false, "Le FormNode n'est pas modifié.");
+
+    formNode.paiement!.type.value = "carte";
+    const formCarte = formNode.paiement as any;
+    t.equal(formCarte.$entity, CarteEntity, "Modifier le discriminant reconstruit le sous-noeud.");
+    t.assert(formCarte.form && formCarte.numero.isEdit, "Le sous-noeud reconstruit est bien un FormNode en édition.");
+    t.equal(formNode.form.isDirty, true, "Le FormNode est modifié.");
+    t.deepEqual(
+        formNode.getChanges(),
+        {paiement: {type: "carte", montant: 20}},
+        "Les modifications contiennent tout le sous-noeud reconstruit."
+    );
+
+    formNode.reset();
+    t.equal(formNode.paiement!.$entity, VirementEntity, "`reset` reconstruit le sous-noeud à partir du noeud source.");
+    t.equal(formNode.form.isDirty, false, "Le FormNode n'est plus modifié après `reset`.");
+
+    formNode.stopSync();
+    formNode.paiement!.type.value = "carte";
+    t.equal(
+        formNode.paiement!.$entity,
+        VirementEntity,
+        "Un FormNode désynchronisé ne reconstruit plus ses sous-noeuds."
+    );
+
+    store.commande.clear();
+    t.equal(store.commande.paiement, undefined, "`clear` retire le sous-noeud.");
+
+    const commandes = makeEntityStore({commandes: [CommandeEntity]}).commandes;
+    commandes.pushNode({id: 2, paiement: {type: "carte"}});
+    const commande = commandes[0];
+    commandes.removeNode(commande);
+    commande.paiement!.type.value = "virement";
+    t.equal(
+        commande.paiement!.$entity,
+        CarteEntity,
+        "Un élément retiré d'une liste ne reconstruit plus ses sous-noeuds."
+    );
+
+    t.end();
+});
+
+test("Listes de valeurs et dictionnaires", t => {
+    const AdresseEntity = {
+        name: "adresse",
+        fields: {
+            ville: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: true,
+                name: "ville",
+                label: "adresse.ville"
+            }
+        }
+    };
+    const ClientEntity = {
+        name: "client",
+        fields: {
+            tags: {
+                type: "field" as "field",
+                fieldType: [] as string[],
+                domain: {validator: {type: "string", maxLength: 3} as Validator},
+                isRequired: true,
+                isList: true,
+                name: "tags",
+                label: "client.tags"
+            },
+            adresses: {
+                type: "map" as "map",
+                entity: AdresseEntity
+            }
+        }
+    };
+
+    const store = makeEntityStore({client: ClientEntity});
+    t.equal(store.client.adresses.size, 0, "Le dictionnaire est vide à la création.");
+
+    store.client.replace({tags: ["a", "b"], adresses: {livraison: {ville: "Paris"}, facturation: {ville: "Lyon"}}});
+    const livraison = store.client.adresses.get("livraison")!;
+    t.equal(livraison.ville.value, "Paris", "Le dictionnaire contient un noeud par clé.");
+    t.deepEqual(
+        toFlatValues(store.client),
+        {tags: ["a", "b"], adresses: {livraison: {ville: "Paris"}, facturation: {ville: "Lyon"}}},
+        "`toFlatValues` retourne bien la liste de valeurs et le dictionnaire."
+    );
+
+    store.client.set({adresses: {livraison: {ville: "Nantes"}, siege: {ville: "Lille"}}});
+    t.equal(store.client.adresses.get("livraison"), livraison, "`set` réutilise les noeuds existants.");
+    t.deepEqual(
+        Object.keys(store.client.adresses.toPOJO()),
+        ["livraison", "facturation", "siege"],
+        "`set` ajoute les nouvelles clés sans retirer les autres."
+    );
+
+    store.client.adresses.replaceNodes({livraison: {ville: "Nantes"}});
+    t.deepEqual(Object.keys(store.client.adresses.toPOJO()), ["livraison"], "`replaceNodes` retire les clés absentes.");
+
+    const formNode = makeFormNode(store.client, true);
+    t.equal(formNode.form.isValid, true, "Le FormNode est valide.");
+
+    formNode.tags.value = ["abcd", "b", "efgh"];
+    t.equal(
+        formNode.tags.error,
+        "focus.validation.string",
+        "Les validateurs du domaine s'appliquent à chaque élément."
+    );
+    formNode.tags.value = [];
+    t.equal(formNode.tags.error, "focus.validation.required", "Une liste vide est considérée comme non renseignée.");
+    formNode.tags.value = ["a"];
+
+    formNode.adresses.get("livraison")!.ville.value = undefined;
+    t.equal(formNode.adresses.form.isValid, false, "Le dictionnaire est invalide si un de ses éléments l'est.");
+    t.deepEqual(
+        formNode.form.errors,
+        {adresses: {livraison: {ville: "focus.validation.required"}}},
+        "Les erreurs du dictionnaire sont agrégées par clé."
+    );
+
+    formNode.adresses.setNodes({livraison: {ville: "Brest"}, siege: {ville: "Lille"}});
+    t.equal(formNode.adresses.form.isDirty, true, "Le dictionnaire est modifié après l'ajout d'une clé.");
+    t.deepEqual(
+        formNode.getChanges(),
+        {
+            tags: ["a"],
+            adresses: {
+                added: {siege: {ville: "Lille"}},
+                modified: {livraison: {changes: {ville: "Brest"}, value: {ville: "Brest"}}},
+                removed: {}
+            }
+        },
+        "Les modifications du dictionnaire distinguent les clés ajoutées et modifiées."
+    );
+
+    formNode.adresses.delete("livraison");
+    t.deepEqual(
+        formNode.adresses.form.changes,
+        {added: {siege: {ville: "Lille"}}, modified: {}, removed: {livraison: {ville: "Nantes"}}},
+        "Les clés retirées apparaissent dans les modifications, avec leur valeur d'origine."
+    );
+
+    formNode.reset();
+    t.deepEqual(
+        toFlatValues(formNode),
+        {tags: ["a", "b"], adresses: {livraison: {ville: "Nantes"}}},
+        "`reset` reconstruit le dictionnaire à partir du noeud source."
+    );
+    t.equal(formNode.form.isDirty, false, "Le FormNode n'est plus modifié après `reset`.");
+
+    store.client.clear();
+    t.equal(store.client.adresses.size, 0, "`clear` vide le dictionnaire.");
+
+    t.end();
+});
+
+test("Valeurs par défaut", t => {
+    let compteur = 0;
+    const TacheEntity = {
+        name: "tache",
+        fields: {
+            statut: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                defaultValue: "brouillon",
+                isRequired: false,
+                name: "statut",
+                label: "tache.statut"
+            },
+            numero: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {},
+                defaultValue: () => ++compteur,
+                isRequired: false,
+                name: "numero",
+                label: "tache.numero"
+            },
+            priorite: {
+                type: "field" as "field",
+                fieldType: 0,
+                domain: {defaultValue: 3},
+                isRequired: false,
+                name: "priorite",
+                label: "tache.priorite"
+            },
+            libelle: {
+                type: "field" as "field",
+                fieldType: "",
+                domain: {},
+                isRequired: false,
+                name: "libelle",
+                label: "tache.libelle"
+            }
+        }
+    };
+
+    const store = makeEntityStore({tache: TacheEntity, taches: [TacheEntity]});
+    t.deepEqual(
+        toFlatValues(store.tache),
+        {statut: "brouillon", numero: 1, priorite: 3},
+        "Le noeud est construit avec les valeurs par défaut du champ ou de son domaine."
+    );
+
+    store.tache.replace({libelle: "Tâche"});
+    t.deepEqual(toFlatValues(store.tache), {libelle: "Tâche"}, "`replace` n'applique pas les valeurs par défaut.");
+
+    store.tache.clear();
+    t.deepEqual(
+        toFlatValues(store.tache),
+        {statut: "brouillon", numero: 2, priorite: 3},
+        "`clear` remet les valeurs par défaut."
+    );
+
+    store.taches.pushNode({}, {statut: "terminée"});
+    t.deepEqual(
+        toFlatValues(store.taches),
+        [{statut: "brouillon", numero: 3, priorite: 3}, {statut: "terminée", numero: 4, priorite: 3}],
+        "`pushNode` applique les valeurs par défaut des champs non renseignés."
+    );
+
+    store.taches.replaceNodes([{libelle: "a"}]);
+    t.deepEqual(
+        toFlatValues(store.taches),
+        [{libelle: "a"}],
+        "`replaceNodes` n'applique pas les valeurs par défaut aux éléments de la liste."
+    );
+
+    const ProjetEntity2 = {
+        name: "projet",
+        fields: {
+            tache: {type: "object" as "object", entity: TacheEntity},
+            taches: {type: "list" as "list", entity: TacheEntity}
+        }
+    };
+    const projetStore = makeEntityStore({projet: ProjetEntity2});
+    projetStore.projet.replace({taches: [{libelle: "b"}]});
+    t.deepEqual(
+        toFlatValues(projetStore.projet),
+        {tache: {}, taches: [{libelle: "b"}]},
+        "`replace` n'applique pas les valeurs par défaut aux éléments d'une sous-liste ni à un sous-noeud absent."
+    );
+
+    const formNode = makeFormNode(store.tache, true);
+    formNode.statut.value = "terminée";
+    formNode.reset();
+    t.equal(formNode.statut.value, "brouillon", "`reset` d'un FormNode en création retrouve les valeurs par défaut.");
+
+    t.end();
+});
+
+test("FormActions: brouillons", async t => {
+    const formNode = makeFormNode(getStore().operation);
+    const storage = new MemoryDraftStorage();
+    const key = getDraftKey("operation", [4]);
+    const actions = makeFormActions(
+        formNode,
+        {getLoadParams: () => [4], load: async () => operation, save: async () => undefined},
+        {confirm: () => true, draft: {delay: 0, storage}}
+    );
+
+    await actions.load();
+    t.equal(storage.getItem(key), undefined, "Aucun brouillon n'est enregistré hors édition.");
+
+    actions.toggleEdit(true);
+    formNode.numero.value = "B123";
+    t.deepEqual(
+        JSON.parse(storage.getItem(key)!),
+        {...operation, numero: "B123"},
+        "Le brouillon est enregistré dès que le formulaire est modifié en édition."
+    );
+
+    await actions.save();
+    t.equal(storage.getItem(key), undefined, "Le brouillon est supprimé après la sauvegarde.");
+
+    storage.setItem(key, JSON.stringify({...operation, numero: "C456"}));
+    await actions.load();
+    t.equal(formNode.numero.value, "C456", "Le brouillon est restauré par dessus les données chargées.");
+    t.equal(formNode.form.isEdit, true, "Le formulaire passe en édition à la restauration du brouillon.");
+
+    actions.toggleEdit(false);
+    t.equal(storage.getItem(key), undefined, "Le brouillon est supprimé à l'annulation de l'édition.");
+    t.equal(formNode.numero.value, "A324", "L'annulation retrouve les données chargées.");
+    actions.clean();
+
+    const EvenementEntity = {
+        name: "evenement",
+        fields: {
+            date: {
+                type: "field" as "field",
+                fieldType: new Date(),
+                domain: {},
+                isRequired: false,
+                name: "date",
+                label: "evenement.date"
+            }
+        }
+    };
+    const date = new Date(2018, 4, 12);
+    const dateNode = makeFormNode(makeEntityStore({evenement: EvenementEntity}).evenement);
+    const dateActions = makeFormActions(
+        dateNode,
+        {save: async () => undefined},
+        {confirm: () => true, draft: {delay: 0, storage}}
+    );
+    dateActions.toggleEdit(true);
+    dateNode.date.value = date;
+    const dateDraft = storage.getItem(getDraftKey("evenement"))!;
+    dateActions.toggleEdit(false);
+    storage.setItem(getDraftKey("evenement"), dateDraft);
+    await dateActions.load();
+    t.assert(dateNode.date.value instanceof Date, "Une date est restaurée depuis le brouillon en tant que date.");
+    t.equal(dateNode.date.value.getTime(), date.getTime(), "Avec la bonne valeur.");
+
+    dateActions.clean();
+    t.end();
+});
+
+test("FormActions: sauvegarde automatique", async t => {
+    const wait = (delay = 0) => new Promise(resolve => setTimeout(resolve, delay));
+    const requests: {values: any; resolve: (data?: any) => void; reject: (error: any) => void}[] = [];
+    const store = getStore();
+    store.operation.replace(operation);
+    const formNode = makeFormNode(store.operation);
+    const actions = makeFormActions(
+        formNode,
+        {save: values => new Promise((resolve, reject) => requests.push({values, resolve, reject}))},
+        {autosave: {delay: 20}}
+    );
+
+    actions.toggleEdit(true);
+    formNode.numero.value = "A";
+    formNode.numero.value = "AB";
+    await wait(50);
+    t.equal(requests.length, 1, "Des modifications rapprochées ne donnent qu'une sauvegarde, après le délai.");
+    t.equal(requests[0].values.numero, "AB", "La sauvegarde automatique envoie les dernières valeurs.");
+    t.equal(actions.isAutosaving, true, "La sauvegarde automatique est en cours.");
+
+    formNode.numero.value = "ABC";
+    await wait(50);
+    t.equal(requests.length, 1, "Aucune sauvegarde concurrente n'est lancée pendant une sauvegarde en cours.");
+
+    requests[0].resolve();
+    await wait();
+    t.equal(requests.length, 2, "La sauvegarde demandée entre-temps est effectuée à la fin de la précédente.");
+    t.equal(requests[1].values.numero, "ABC", "Elle envoie les valeurs modifiées entre-temps.");
+    t.ok(actions.lastAutosave, "La date de la dernière sauvegarde réussie est renseignée.");
+    t.equal(formNode.form.isEdit, true, "Le formulaire reste en édition.");
+
+    requests[1].reject("Erreur serveur");
+    await wait();
+    t.equal(actions.autosaveError, "Erreur serveur", "L'erreur de la sauvegarde automatique est renseignée.");
+    t.equal(actions.isAutosaving, false, "La sauvegarde automatique est terminée.");
+
+    formNode.numero.value = "ABCD";
+    await wait(50);
+    t.equal(requests.length, 3, "Une nouvelle modification relance la sauvegarde automatique.");
+    const saved = actions.save();
+    await wait();
+    t.equal(requests.length, 3, "Une sauvegarde manuelle attend la fin de la sauvegarde automatique en cours.");
+    requests[2].resolve();
+    await wait();
+    t.equal(requests.length, 4, "La sauvegarde manuelle est envoyée ensuite.");
+    t.equal(requests[3].values.numero, "ABCD", "Elle envoie les valeurs courantes.");
+    requests[3].resolve();
+    await saved;
+    t.equal(actions.autosaveError, undefined, "L'erreur est effacée par la sauvegarde automatique réussie.");
+    t.equal(formNode.form.isEdit, false, "La sauvegarde manuelle quitte l'édition.");
+    await wait(50);
+    t.equal(requests.length, 4, "Aucune sauvegarde automatique n'est lancée après la sauvegarde manuelle.");
+
+    actions.clean();
+    t.end();
+});
+
+test("FormActions: chargement", async t => {
+    const wait = () => new Promise(resolve => setTimeout(resolve, 0));
+    const requests: {args: any[]; resolve: (data: any) => void; reject: (error: any) => void}[] = [];
+    const load = (...args: any[]) => new Promise<any>((resolve, reject) => requests.push({args, resolve, reject}));
+    const id = observable.box(1);
+
+    const store = getStore();
+    const formNode = makeFormNode(store.operation);
+    const actions = makeFormActions(formNode, {
+        getLoadParams: () => [id.get()],
+        load,
+        save: () => Promise.resolve()
+    });
+    actions.load();
+    t.deepEqual(
+        requests[0].args,
+        [1],
+        "Sans `loadWithSignal`, le service reçoit uniquement les paramètres de chargement."
+    );
+    t.equal(actions.isLoading, true, "Le formulaire est en chargement.");
+
+    id.set(2);
+    t.equal(requests.length, 2, "Un changement de paramètres relance le chargement.");
+    requests[1].resolve({...operation, id: 2});
+    await wait();
+    requests[0].resolve({...operation, id: 1});
+    await wait();
+    t.equal(store.operation.id.value, 2, "Le retour d'un chargement remplacé par un autre est ignoré.");
+    t.equal(actions.isLoading, false, "Le chargement est terminé.");
+
+    id.set(3);
+    requests[2].reject("Erreur serveur");
+    await wait();
+    t.equal(actions.loadError, "Erreur serveur", "L'erreur du chargement est renseignée.");
+    t.equal(actions.isLoading, false, "Le chargement est terminé après l'erreur.");
+    t.equal(store.operation.id.value, 2, "Le noeud origine n'est pas modifié par un chargement en erreur.");
+
+    actions.retryLoad();
+    t.equal(requests.length, 4, "`retryLoad` relance le chargement.");
+    t.deepEqual(requests[3].args, [3], "Avec les paramètres courants.");
+    t.equal(actions.loadError, undefined, "L'erreur est effacée au nouveau chargement.");
+    requests[3].resolve({...operation, id: 3});
+    await wait();
+    t.equal(store.operation.id.value, 3, "Le retour du nouveau chargement est enregistré.");
+    actions.clean();
+
+    const signalActions = makeFormActions(makeFormNode(getStore().operation), {
+        getLoadParams: () => [id.get()],
+        load,
+        loadWithSignal: true,
+        save: () => Promise.resolve()
+    });
+    signalActions.load();
+    const [param, signal] = requests[4].args;
+    t.equal(param, 3, "Avec `loadWithSignal`, le service reçoit les paramètres de chargement...");
+    t.equal(signal.aborted, false, "... puis un `AbortSignal`.");
+    id.set(4);
+    t.equal(signal.aborted, true, "Le signal est déclenché quand le chargement est remplacé par un autre.");
+    signalActions.clean();
+    t.end();
+});
+
+test("FormActions: création et suppression", async t => {
+    const wait = (delay = 0) => new Promise(resolve => setTimeout(resolve, delay));
+    const calls: {service: string; values: any}[] = [];
+    const services = {
+        create: (values: any) => (calls.push({service: "create", values}), Promise.resolve({...values, id: 10})),
+        delete: (values: any) => (calls.push({service: "delete", values}), Promise.resolve()),
+        save: (values: any) => (calls.push({service: "save", values}), Promise.resolve())
+    };
+
+    const store = getStore();
+    store.operation.replace(operation);
+    const formNode = makeFormNode(store.operation);
+    const withoutCreate = makeFormActions(formNode, {save: services.save});
+    t.equal(withoutCreate.isNew, false, "Un formulaire sans action de création n'est jamais en création.");
+    t.equal(withoutCreate.panelProps.isNew, false, "Le Panel n'affiche donc pas de bouton de création.");
+    withoutCreate.clean();
+
+    const actions = makeFormActions(formNode, services);
+    t.equal(
+        actions.isNew,
+        true,
+        "Un formulaire avec une action de création et sans paramètres de chargement est en création."
+    );
+    t.equal(actions.panelProps.delete, undefined, "La suppression n'est pas proposée en création.");
+    await actions.load();
+    t.equal(formNode.form.isEdit, true, "Un formulaire en création s'ouvre en édition.");
+
+    await actions.save();
+    t.deepEqual(
+        calls.map(c => c.service),
+        ["create"],
+        "La sauvegarde d'un formulaire en création appelle l'action de création."
+    );
+    t.equal(actions.isNew, false, "Le formulaire n'est plus en création après la création.");
+    t.equal(store.operation.id.value, 10, "Le retour de la création est enregistré dans le noeud origine.");
+    t.equal(typeof actions.panelProps.delete, "function", "La suppression est proposée une fois l'entité créée.");
+
+    actions.toggleEdit(true);
+    await actions.save();
+    t.deepEqual(
+        calls.map(c => c.service),
+        ["create", "save"],
+        "Les sauvegardes suivantes appellent l'action de sauvegarde."
+    );
+
+    let confirmation = false;
+    let deleted = 0;
+    const deleteActions = makeFormActions(formNode, services, {
+        confirm: () => confirmation,
+        onFormDeleted: () => deleted++
+    });
+    await deleteActions.delete();
+    t.equal(calls.length, 2, "La suppression n'est pas effectuée sans confirmation.");
+    confirmation = true;
+    const sourceValues = toFlatValues(store.operation);
+    await deleteActions.delete();
+    t.deepEqual(
+        calls[2],
+        {service: "delete", values: sourceValues},
+        "La suppression envoie les valeurs du noeud origine."
+    );
+    t.equal(deleted, 1, "Le hook `onFormDeleted` est appelé.");
+    t.equal(store.operation.id.value, undefined, "Le noeud origine est vidé après la suppression.");
+    actions.clean();
+    deleteActions.clean();
+
+    const autosaveStore = getStore();
+    autosaveStore.operation.replace(operation);
+    const autosaveNode = makeFormNode(autosaveStore.operation);
+    const autosaveActions = makeFormActions(autosaveNode, services, {autosave: {delay: 20}});
+    calls.length = 0;
+    await autosaveActions.load();
+    autosaveNode.numero.value = "B";
+    await wait(50);
+    autosaveNode.numero.value = "BC";
+    await wait(50);
+    t.deepEqual(
+        calls.map(c => c.service),
+        ["create", "save"],
+        "La sauvegarde automatique d'un formulaire en création appelle l'action de création, une seule fois."
+    );
+    autosaveActions.clean();
+    t.end();
+});
+
+test("FormWizard", async t => {
+    const field = (name: string, isRequired: boolean) => ({
+        type: "field" as "field",
+        fieldType: "",
+        domain: {},
+        isRequired,
+        name,
+        label: `inscription.${name}`
+    });
+    const InscriptionEntity = {
+        name: "inscription",
+        fields: {
+            nom: field("nom", true),
+            type: field("type", false),
+            societe: {
+                ...field("societe", true),
+                domain: {validator: [(societe: string) => societe === "Société" && {warning: "societe.generique"}]}
+            }
+        }
+    };
+
+    const store = makeEntityStore({inscription: InscriptionEntity});
+    const formNode = makeFormNode(store.inscription, true);
+    let saved = 0;
+    let fail = true;
+    const actions = makeFormActions(formNode, {
+        save: async () => {
+            if (fail) {
+                throw new Error("Erreur serveur");
+            }
+            saved++;
+        }
+    });
+    const wizard = makeFormWizard(formNode, actions, [
+        {name: "identite", fields: ["nom", "type"]},
+        {name: "societe", fields: ["societe"], when: node => node.type.value === "pro"},
+        {name: "resume", fields: []}
+    ]);
+
+    t.deepEqual(
+        wizard.activeSteps.map(step => step.name),
+        ["identite", "resume"],
+        "Les étapes dont la condition n'est pas remplie sont masquées."
+    );
+    t.equal(await wizard.next(), false, "On ne passe pas à l'étape suivante si l'étape courante est invalide.");
+    t.equal(actions.formContext.forceErrorDisplay, true, "Les erreurs de l'étape invalide sont affichées.");
+
+    formNode.nom.value = "Dupont";
+    formNode.type.value = "pro";
+    t.equal(await wizard.next(), true, "On passe à l'étape suivante si l'étape courante est valide.");
+    t.equal(wizard.currentStep!.name, "societe", "L'étape affichée par sa condition est bien la suivante.");
+    t.equal(wizard.progress, 0.5, "L'avancement est calculé sur les étapes affichées.");
+
+    wizard.previous();
+    t.equal(wizard.currentStep!.name, "identite", "On peut revenir à l'étape précédente.");
+    wizard.goTo("resume");
+    t.equal(wizard.currentStep!.name, "identite", "On ne peut pas sauter vers une étape suivante.");
+
+    await wizard.next();
+    formNode.societe.value = "ACME";
+    await wizard.next();
+    t.equal(wizard.isLast, true, "On arrive à la dernière étape.");
+
+    t.equal(await wizard.next(), false, "Un échec de la sauvegarde depuis la dernière étape renvoie `false`.");
+    t.equal(saved, 0, "La sauvegarde a bien échoué.");
+
+    fail = false;
+    t.equal(await wizard.next(), true, "La dernière étape sauvegarde le formulaire.");
+    t.equal(saved, 1, "La sauvegarde a bien été appelée.");
+
+    const warningActions = makeFormActions(
+        formNode,
+        {save: async () => (saved++, undefined)},
+        {confirmWarnings: true, confirm: () => false}
+    );
+    const warningWizard = makeFormWizard(formNode, warningActions, [{name: "resume", fields: []}]);
+    warningActions.toggleEdit(true);
+    formNode.societe.value = "Société";
+    t.equal(
+        await warningWizard.next(),
+        false,
+        "Une sauvegarde refusée à cause des avertissements depuis la dernière étape renvoie `false`."
+    );
+    t.equal(saved, 1, "La sauvegarde n'a pas été appelée.");
+
+    const emptyWizard = makeFormWizard(formNode, actions, [{name: "societe", fields: ["societe"], when: () => false}]);
+    t.equal(emptyWizard.currentStep, undefined, "Il n'y a pas d'étape courante si aucune étape n'est affichée.");
+    t.equal(emptyWizard.isStepValid, false, "L'étape courante n'est alors pas valide.");
+    t.equal(emptyWizard.isLast, false, "Ni la dernière.");
+    t.equal(emptyWizard.progress, 0, "L'avancement est nul.");
+    emptyWizard.previous();
+    t.equal(await emptyWizard.next(), false, "On ne peut ni avancer ni sauvegarder.");
+
+    warningActions.clean();
+    actions.clean();
+    t.end();
+});
+
+test("Gardes de navigation", async t => {
+    const tick = () => new Promise(resolve => setTimeout(resolve));
+    let answer = (): boolean | Promise<boolean> => true;
+    let calls = 0;
+    const dispose = addLeaveGuard(() => answer());
+    const disposeSecond = addLeaveGuard(() => {
+        calls++;
+        return true;
+    });
+
+    t.equal(canLeave(), true, "La navigation est autorisée si toutes les gardes l'acceptent.");
+    t.equal(calls, 1, "Toutes les gardes sont consultées.");
+    answer = () => false;
+    t.equal(canLeave(), false, "La navigation est refusée si une garde la refuse.");
+    t.equal(calls, 1, "Les gardes suivantes ne sont pas consultées après un refus.");
+    answer = () => Promise.resolve(true);
+    t.equal(await canLeave(), true, "Une garde peut répondre par une promesse.");
+    t.equal(calls, 2, "Les gardes suivantes sont consultées après la confirmation.");
+    disposeSecond();
+
+    const store = new ViewStore({view: {page: "", id: "", onglet: ""}, subViewParams: ["onglet"]});
+    store.updateActivity = () => (store.isActiveInRouter = true);
+    store.updateView({page: "detail", id: "4"}, true);
+
+    answer = () => false;
+    store.setView({onglet: "adresse"});
+    t.equal(store.currentView.onglet, "adresse", "Changer de sous-vue ne consulte pas les gardes.");
+    store.setView({id: "5"});
+    t.equal(store.currentView.id, "4", "Quitter la page est annulé si une garde le refuse.");
+
+    answer = () => Promise.reject(new Error("Erreur de la garde"));
+    store.setView({id: "5"});
+    await tick();
+    t.equal(store.currentView.id, "4", "Une garde en erreur vaut un refus.");
+
+    answer = () => Promise.resolve(true);
+    store.setView({id: "5"});
+    await tick();
+    t.equal(store.currentView.id, "5", "La page est quittée après la confirmation de la garde.");
+
+    t.deepEqual(
+        store.parseUrl("/detail/4"),
+        {page: "detail", id: "4", onglet: undefined},
+        "La vue d'une URL du store est bien récupérée."
+    );
+    t.equal(
+        store.isPageLeave(store.parseUrl("/detail/4/adresse")!, store.parseUrl("/detail/4/contacts")!),
+        false,
+        "Passer d'une sous-vue à l'autre par l'URL ne quitte pas la page."
+    );
+
+    dispose();
+    answer = () => false;
+    t.equal(canLeave(), true, "Une garde retirée n'est plus consultée.");
+
+    t.end();
+});
@@ -0,0 +1,52 @@
+import {omit, pick} from "lodash";
+
+import {Entity, NodeValidator} from "./types";
+
+type Omit<T, K> = Pick<T, Exclude<keyof T, K>>;
+
+/**
+ * Crée une nouvelle entité à partir d'une entité de base, en lui ajoutant (ou en remplaçant) des champs.
+ * Les validateurs de noeud de l'entité de base sont conservés.
+ * @param base L'entité de base.
+ * @param extension Le nom de la nouvelle entité, ses champs additionnels et ses éventuels validateurs de noeud additionnels.
+ */
+export function extendEntity<T extends Entity, F extends Entity["fields"]>(
+    base: T,
+    {name, fields, validators = []}: {name: string; fields: F; validators?: NodeValidator[]}
+): {name: string; fields: Omit<T["fields"], keyof F> & F; validators?: NodeValidator[]} {
+    return {
+        name,
+        fields: {...(base.fields as {}), ...(fields as {})} as Omit<T["fields"], keyof F> & F,
+        validators: [...(base.validators || []), ...validators]
+    };
+}
+
+/**
+ * Crée une nouvelle entité contenant uniquement les champs choisis d'une entité.
+ * Les validateurs de noeud ne sont pas conservés, puisqu'ils peuvent porter sur des champs retirés.
+ * @param entity L'entité.
+ * @param keys Les champs à conserver.
+ * @param name Le nom de la nouvelle entité. Par défaut : celui de l'entité.
+ */
+export function pickEntity<T extends Entity, K extends keyof T["fields"]>(
+    entity: T,
+    keys: K[],
+    name = entity.name
+): {name: string; fields: Pick<T["fields"], K>} {
+    return {name, fields: pick(entity.fields, keys) as Pick<T["fields"], K>};
+}
+
+/**
+ * Crée une nouvelle entité contenant tous les champs d'une entité sauf ceux précisés.
+ * Les validateurs de noeud ne sont pas conservés, puisqu'ils peuvent porter sur des champs retirés.
+ * @param entity L'entité.
+ * @param keys Les champs à retirer.
+ * @param name Le nom de la nouvelle entité. Par défaut : celui de l'entité.
+ */
+export function omitEntity<T extends Entity, K extends keyof T["fields"]>(
+    entity: T,
+    keys: K[],
+    name = entity.name
+): {name: string; fields: Omit<T["fields"], K>} {
+    return {name, fields: omit(entity.fields, keys) as Omit<T["fields"], K>};
+}
@@ -8,7 +8,8 @@ import {findDOMNode} from "react-dom";
 import {Autocomplete, Display, Input, Label, Select} from "../../components";
 import {themr} from "../../theme";
 
-import {BaseInputProps, EntityField, FieldComponents, FieldEntry, FormEntityField} from "../types";
+import {BaseInputProps, EntityField, FieldComponents, FieldEntry, FormEntityField, ValidationMode} from "../types";
+import {evaluateFieldRule} from "../validation";
 import {documentHelper} from "./document-helper";
 
 import * as styles from "./__style__/field.css";
@@ -36,6 +37,8 @@ export interface FieldOptions<T extends FieldEntry> {
     onChange?: (value: T["fieldType"]) => void;
     /** CSS. */
     theme?: FieldStyle;
+    /** Moment à partir duquel l'erreur du champ est affichée. Par défaut : celui du formulaire. */
+    validationMode?: ValidationMode;
     /** Largeur en % de la valeur. Par défaut : 100 - `labelRatio`. */
     valueRatio?: number;
 }
@@ -44,23 +47,47 @@ export interface FieldOptions<T extends FieldEntry> {
 export class Field<T extends FieldEntry> extends React.Component<
     {field: EntityField<T>} & FieldOptions<T> & FieldComponents
 > {
-    // On récupère le forceErrorDisplay du form depuis le contexte.
+    // On récupère le forceErrorDisplay et le mode de validation du form depuis le contexte.
     static contextTypes = {form: PropTypes.object};
-    context!: {form?: {forceErrorDisplay: boolean}};
+    context!: {form?: {forceErrorDisplay: boolean; validationMode?: ValidationMode}};
 
     /** <div /> contenant le composant de valeur (input ou display). */
     @observable private valueElement?: Element | null;
     /** Masque l'erreur à l'initilisation du Field si on est en mode edit et que le valeur est vide (= cas standard de création). */
     @observable private hideErrorOnInit = (this.props.field as FormEntityField<T>).isEdit && !this.props.field.value;
 
-    /** Détermine si on affiche l'erreur ou pas. En plus des surcharges du form et du field lui-même, l'erreur est masquée si le champ est en cours de saisie. */
+    /** Mode de validation du champ, ou à défaut celui du form. */
+    @computed
+    get validationMode() {
+        return this.props.validationMode || (this.context.form && this.context.form.validationMode);
+    }
+
+    /**
+     * Détermine si on affiche l'erreur ou pas. En plus des surcharges du form et du field lui-même, l'erreur est masquée si le champ est en cours de saisie
+     * (sauf en validation "change"), puis selon le mode de validation.
+     */
     @computed
     get showError() {
-        return (
-            !this.props.noError &&
-            !documentHelper.isElementActive(this.valueElement) &&
-            (!this.hideErrorOnInit || (this.context.form && this.context.form.forceErrorDisplay) || false)
-        );
+        const {field, noError} = this.props;
+        const forceErrorDisplay = (this.context.form && this.context.form.forceErrorDisplay) || false;
+        const touched = (field as FormEntityField<T>).touched || false;
+
+        if (noError) {
+            return false;
+        } else if (this.validationMode === "change") {
+            return forceErrorDisplay || touched;
+        } else if (documentHelper.isElementActive(this.valueElement)) {
+            return false;
+        }
+
+        switch (this.validationMode) {
+            case "blur":
+                return forceErrorDisplay || touched;
+            case "submit":
+                return forceErrorDisplay;
+            default:
+                return !this.hideErrorOnInit || forceErrorDisplay;
+        }
     }
 
     // On enregistre le <div> de la valeur et on enregistre un eventListener désactiver le `hideErrorOnInit` au premier clic sur
@@ -71,6 +98,12 @@ export class Field<T extends FieldEntry> extends React.Component<
         if (this.hideErrorOnInit) {
             this.valueElement!.addEventListener("mousedown", this.disableHideError);
         }
+        // "focusout" remonte depuis l'input, contrairement à "blur".
+        this.valueElement!.addEventListener("focusout", this.onBlur);
+    }
+
+    componentWillUnmount() {
+        this.valueElement!.removeEventListener("focusout", this.onBlur);
     }
 
     /** Désactive le masquage de l'erreur si le champ était en création avant le premier clic. */
@@ -92,6 +125,25 @@ export class Field<T extends FieldEntry> extends React.Component<
         if (onChange) {
             onChange((domain.unformatter && domain.unformatter(value)) || value);
         }
+        if (this.validationMode === "change") {
+            this.touch();
+        }
+    }
+
+    /** Appelé lorsque le focus quitte l'input. */
+    @action.bound
+    private onBlur() {
+        if (this.validationMode !== "change") {
+            this.touch();
+        }
+    }
+
+    /** Marque le champ (de formulaire) comme touché. */
+    private touch() {
+        const field = this.props.field as FormEntityField<T>;
+        if ("touched" in field) {
+            field.touched = true;
+        }
     }
 
     /** Affiche le composant d'affichage (`DisplayComponent`). */
@@ -191,11 +243,12 @@ export class Field<T extends FieldEntry> extends React.Component<
                     const {
                         error,
                         isEdit,
+                        warning,
+                        isRequired = evaluateFieldRule(field.$field.isRequired),
                         $field: {
                             comment,
                             label,
                             name,
-                            isRequired,
                             domain: {className = "", LabelComponent = Label, labelProps: domainLCP = {}}
                         }
                     } = field as FormEntityField<T>;
@@ -204,7 +257,9 @@ export class Field<T extends FieldEntry> extends React.Component<
                         <div
                             className={`${theme.field} ${isEdit ? theme.edit : ""} ${
                                 isEdit && error && this.showError ? theme.invalid : ""
-                            } ${isRequired ? theme.required : ""} ${className}`}
+                            } ${isEdit && warning ? theme.warned : ""} ${
+                                isRequired ? theme.required : ""
+                            } ${className}`}
                         >
                             {hasLabel ? (
                                 <LabelComponent
@@ -227,6 +282,9 @@ export class Field<T extends FieldEntry> extends React.Component<
                                 className={`${theme.value} ${className}`}
                             >
                                 {isEdit ? this.input() : this.display()}
+                                {isEdit && warning && !(error && this.showError) ? (
+                                    <div className={theme.warning}>{warning}</div>
+                                ) : null}
                             </div>
                         </div>
                     );
@@ -202,20 +202,24 @@ function new$field<T extends FieldEntry>(old$field: T, $field: $Field | (() => $
 function new$fieldCore(old$field: FieldEntry, $field: $Field) {
     const {
         domain = old$field.domain,
+        isReadonly = old$field.isReadonly,
         isRequired = old$field.isRequired,
         label = old$field.label,
         name = old$field.name,
         type = old$field.type,
         comment = old$field.comment,
+        computed: compute = old$field.computed,
         fieldType = old$field.fieldType,
         ...domainOverrides
     } = $field;
     return {
+        isReadonly,
         isRequired,
         label,
         name,
         type,
         comment,
+        computed: compute,
         fieldType,
         domain: {
             ...domain,
@@ -1,43 +1,83 @@
-import i18next from "i18next";
-import {action, comparer, computed, Lambda, observable, reaction, runInAction} from "mobx";
+import * as i18next from "i18next";
+import {isEqual} from "lodash";
+import {action, comparer, computed, Lambda, observable, reaction, runInAction, when} from "mobx";
 
 import {PanelProps} from "../../components";
 import {messageStore} from "../../message";
+import {ManagedErrorResponse} from "../../network/error-parsing";
+import {addLeaveGuard} from "../../router";
 
-import {toFlatValues} from "../store";
-import {Entity, EntityToType, FormListNode, FormNode, isStoreNode} from "../types";
+import {resetTouched, setServerErrors, toFlatValues} from "../store";
+import {Entity, EntityToType, FormListNode, FormNode, isStoreNode, ValidationMode} from "../types";
+import {DraftConfig, getDraftKey, parseDraft, serializeDraft} from "./draft";
 import {FormProps} from "./form";
 
+/** Configuration de la sauvegarde automatique d'un formulaire. */
+export interface AutosaveConfig {
+    /** Délai (en ms) sans modification avant de sauvegarder. Par défaut : 1000. */
+    delay?: number;
+}
+
 /** Configuration additionnelle du formulaire.. */
 export interface FormConfig {
+    /** Sauvegarde automatiquement le formulaire après chaque modification (s'il est valide), sans quitter l'édition. */
+    autosave?: boolean | AutosaveConfig;
     /** Vide le store de base à l'initialisation. */
     clearBeforeInit?: boolean;
+    /** Fonction de confirmation pour les actions qui en demandent une. Par défaut : `window.confirm`. */
+    confirm?: (message: string) => boolean | Promise<boolean>;
+    /** Demande une confirmation avant de quitter la vue (navigation du routeur ou fermeture de l'onglet) si le formulaire est en édition et modifié. */
+    confirmLeave?: boolean;
+    /** Demande une confirmation avant de sauvegarder un formulaire qui a des avertissements. */
+    confirmWarnings?: boolean;
+    /** Enregistre régulièrement un brouillon du formulaire en cours d'édition, qui sera proposé à la restauration au prochain chargement. */
+    draft?: boolean | DraftConfig;
     /** Préfixe i18n. Par défaut : "focus". */
     i18nPrefix?: string;
     /** Appelé après le chargement. */
     onFormLoaded?: () => void;
-    /** Appelé après la sauvegarde. */
+    /** Appelé après la suppression. */
+    onFormDeleted?: () => void;
+    /** Appelé après la sauvegarde (ou la création). */
     onFormSaved?: () => void;
     /** Appelé après le changement de mode. */
     onToggleEdit?: (edit: boolean) => void;
+    /** Moment à partir duquel les erreurs des champs sont affichées. Par défaut, elles sont masquées sur un champ vide jusqu'au premier clic. */
+    validationMode?: ValidationMode;
 }
 
 /** Config d'actions à fournir au formulaire. */
 export interface ActionConfig<T = any> {
+    /** Action de création. Si elle est renseignée, elle est appelée à la place de la sauvegarde tant que le formulaire est en création (pas de paramètres de chargement et pas encore créé). */
+    create?: (entity: T) => Promise<T | void>;
+    /** Action de suppression. Le bouton de suppression n'est proposé que si elle est renseignée. */
+    delete?: (entity: T) => Promise<void>;
     /** Fonction pour récupérer la liste des paramètres pour l'action de chargement. Si le résultat contient des observables, le service de chargement sera rappelé à chaque modification. */
     getLoadParams?: () => any[] | undefined;
     /** Action de chargement. */
     load?: (...args: any[]) => Promise<T>;
+    /** Passe à l'action de chargement un `AbortSignal` en paramètre supplémentaire (après ceux de `getLoadParams`), déclenché si le chargement est remplacé par un autre ou annulé. */
+    loadWithSignal?: boolean;
     /** Action de sauvegarde. Obligatoire. */
     save: (entity: T) => Promise<T | void>;
 }
 
 /** Gère les actions d'un formulaire. A n'utiliser QUE pour des formulaires (avec de la sauvegarde). */
 export class FormActions {
-    /** Contexte du formulaire, pour forcer l'affichage des erreurs aux Fields enfants. */
-    readonly formContext: {forceErrorDisplay: boolean} = observable({forceErrorDisplay: false});
+    /** Contexte du formulaire, pour forcer l'affichage des erreurs aux Fields enfants et leur transmettre le mode de validation. */
+    readonly formContext: {forceErrorDisplay: boolean; validationMode?: ValidationMode};
+    /** Erreurs globales renvoyées par le serveur lors de la dernière sauvegarde (ou qui ne correspondent à aucun champ). */
+    @observable.ref globalErrors: string[] = [];
     /** Formulaire en chargement. */
     @observable isLoading = false;
+    /** Erreur du dernier chargement, s'il a échoué. */
+    @observable.ref loadError?: any;
+    /** Sauvegarde automatique en cours. */
+    @observable isAutosaving = false;
+    /** Erreur de la dernière sauvegarde automatique, s'il y en a eu une. */
+    @observable.ref autosaveError?: any;
+    /** Date de la dernière sauvegarde automatique réussie. */
+    @observable.ref lastAutosave?: Date;
 
     /** Services. */
     private readonly actions: ActionConfig;
@@ -47,15 +87,96 @@ export class FormActions {
     private readonly entity: FormNode | FormListNode;
     /** Disposer de la réaction de chargement. */
     private readonly loadDisposer?: Lambda;
+    /** Disposer de la réaction d'enregistrement du brouillon. */
+    private readonly draftDisposer?: Lambda;
+    /** Disposer de la garde de navigation. */
+    private readonly leaveGuardDisposer?: Lambda;
+    /** Disposer de la réaction de sauvegarde automatique. */
+    private readonly autosaveDisposer?: Lambda;
+    /** Une modification a eu lieu pendant la sauvegarde automatique en cours : il faudra sauvegarder à nouveau. */
+    private hasPendingAutosave = false;
+    /** Appel en cours du service par la sauvegarde automatique, qu'une sauvegarde manuelle doit attendre. */
+    private autosaveRequest?: Promise<any>;
+    /** Une sauvegarde manuelle est en cours : elle remplace les sauvegardes automatiques. */
+    private isSaving = false;
+    /** Numéro du dernier chargement lancé, pour ignorer les retours des chargements précédents. */
+    private loadId = 0;
+    /** Chargement en cours, avec son contrôleur d'annulation (si le navigateur le supporte). */
+    private pendingLoad?: {controller?: AbortController};
+    /** L'entité a été créée par le formulaire, qui n'est donc plus en création. */
+    @observable private isCreated = false;
 
     constructor(formNode: FormNode | FormListNode, actions: ActionConfig, config?: FormConfig) {
         this.entity = formNode;
         this.config = config || {};
         this.actions = actions;
+        this.formContext = observable({forceErrorDisplay: false, validationMode: this.config.validationMode});
 
         // On met en place la réaction de chargement.
         if (actions.getLoadParams) {
-            this.loadDisposer = reaction(actions.getLoadParams, this.load, {equals: comparer.structural});
+            this.loadDisposer = reaction(
+                actions.getLoadParams,
+                () => {
+                    // De nouveaux paramètres de chargement désignent une autre entité, qui n'a donc pas été créée par le formulaire.
+                    this.isCreated = false;
+                    this.load();
+                },
+                {equals: comparer.structural}
+            );
+        }
+
+        // On met en place la réaction d'enregistrement du brouillon, tant que le formulaire est en édition et modifié.
+        if (this.config.draft) {
+            const {delay = 2000} = this.draftConfig;
+            if (!this.draftKey) {
+                console.warn(
+                    "Impossible de déterminer le nom du brouillon du formulaire : il faut le préciser dans `config.draft.name`. Les brouillons sont désactivés."
+                );
+            }
+            this.draftDisposer = reaction(
+                () => ({
+                    key: this.draftKey,
+                    values: this.hasUnsavedChanges && toFlatValues(this.entity)
+                }),
+                ({key, values}) => {
+                    if (!key) {
+                        return;
+                    } else if (values) {
+                        this.draftStorage.setItem(key, serializeDraft(values));
+                    } else {
+                        this.draftStorage.removeItem(key);
+                    }
+                },
+                {delay}
+            );
+        }
+
+        // On met en place la réaction de sauvegarde automatique, tant que le formulaire est en édition, modifié et valide.
+        if (this.config.autosave) {
+            const {delay = 1000} = this.config.autosave === true ? {} : this.config.autosave;
+            this.autosaveDisposer = reaction(
+                () =>
+                    this.hasUnsavedChanges &&
+                    !this.entity.form.isValidating &&
+                    this.entity.form.isValid &&
+                    toFlatValues(this.entity),
+                values => {
+                    if (values) {
+                        this.autosave();
+                    }
+                },
+                {delay, equals: comparer.structural}
+            );
+        }
+
+        // On enregistre la garde de navigation auprès du routeur, ainsi que la confirmation de fermeture de l'onglet.
+        if (this.config.confirmLeave) {
+            this.leaveGuardDisposer = addLeaveGuard(
+                () =>
+                    !this.hasUnsavedChanges ||
+                    this.confirm(i18next.t(`${this.config.i18nPrefix || "focus"}.detail.confirmLeave`))
+            );
+            window.addEventListener("beforeunload", this.onBeforeUnload);
         }
     }
 
@@ -65,6 +186,7 @@ export class FormActions {
         return {
             clean: this.clean,
             formContext: this.formContext,
+            globalErrors: this.globalErrors,
             load: this.load,
             save: this.save
         };
@@ -74,39 +196,103 @@ export class FormActions {
     @computed.struct
     get panelProps(): PanelProps {
         return {
+            delete: this.actions.delete && !this.isNew ? this.delete : undefined,
             editing: this.entity.form.isEdit,
+            isNew: this.isNew,
             loading: this.isLoading,
             save: this.save,
             toggleEdit: this.toggleEdit
         };
     }
 
+    /** Précise si le formulaire est en création : il a une action de création, pas de paramètres de chargement et n'a pas encore été créé. */
+    @computed
+    get isNew() {
+        const {create, getLoadParams} = this.actions;
+        return !!create && !this.isCreated && !(getLoadParams && getLoadParams());
+    }
+
+    /**
+     * Clé du brouillon du formulaire, construite à partir du nom de l'entité et des paramètres de chargement.
+     * Non définie si le nom ne peut pas être déterminé : aucun brouillon n'est alors enregistré.
+     */
+    @computed
+    get draftKey() {
+        const {getLoadParams} = this.actions;
+        const {name = this.entity.$entity && this.entity.$entity.name} = this.draftConfig;
+        return name ? getDraftKey(name, getLoadParams && getLoadParams()) : undefined;
+    }
+
     /** Supprime les réactions du formulaire et de son FormNode. */
     @action.bound
     clean() {
         if (this.loadDisposer) {
             this.loadDisposer();
         }
+        if (this.draftDisposer) {
+            this.draftDisposer();
+        }
+        if (this.autosaveDisposer) {
+            this.autosaveDisposer();
+        }
+        if (this.leaveGuardDisposer) {
+            this.leaveGuardDisposer();
+            window.removeEventListener("beforeunload", this.onBeforeUnload);
+        }
+        this.cancelLoad();
         if ((this.entity as any).stopSync) {
             (this.entity as any).stopSync();
         }
     }
 
-    /** Appelle le service de chargement (appelé par la réaction de chargement). */
+    /**
+     * Appelle le service de chargement (appelé par la réaction de chargement).
+     * Un éventuel chargement en cours est annulé et son retour sera ignoré. Une erreur du service est placée dans `loadError`.
+     */
     @action.bound
     async load() {
-        const {getLoadParams, load} = this.actions;
+        const {getLoadParams, load, loadWithSignal} = this.actions;
+        const loadId = this.cancelLoad();
 
         if (this.config.clearBeforeInit) {
             this.entity.sourceNode.clear();
         }
 
+        // Un formulaire de création s'ouvre directement en édition.
+        if (this.isNew) {
+            this.entity.form.isEdit = true;
+        }
+
         // On n'effectue le chargement que si on a un service de chargement et des paramètres pour le service.
         if (getLoadParams && load) {
             const params = getLoadParams();
             if (params) {
                 this.isLoading = true;
-                const data = await load(...params);
+                this.loadError = undefined;
+                const controller =
+                    loadWithSignal && typeof AbortController !== "undefined" ? new AbortController() : undefined;
+                this.pendingLoad = {controller};
+
+                let data: any;
+                try {
+                    data = await (loadWithSignal ? load(...params, controller && controller.signal) : load(...params));
+                } catch (error) {
+                    if (loadId === this.loadId) {
+                        this.pendingLoad = undefined;
+                        runInAction("loadError", () => {
+                            this.loadError = error;
+                            this.isLoading = false;
+                        });
+                    }
+                    return;
+                }
+
+                // Le retour d'un chargement remplacé entre-temps par un autre est ignoré.
+                if (loadId !== this.loadId) {
+                    return;
+                }
+
+                this.pendingLoad = undefined;
                 runInAction("afterLoad", () => {
                     if (isStoreNode(this.entity.sourceNode)) {
                         this.entity.sourceNode.replace(data);
@@ -117,28 +303,71 @@ export class FormActions {
                     this.isLoading = false;
                 });
 
+                await this.restoreDraft();
+
                 if (this.config.onFormLoaded) {
                     this.config.onFormLoaded();
                 }
             }
+        } else {
+            await this.restoreDraft();
         }
     }
 
+    /** Relance le chargement, par exemple après une erreur (`loadError`). */
+    @action.bound
+    retryLoad() {
+        return this.load();
+    }
+
     /** Appelle le service de sauvegarde. */
     @action.bound
     async save() {
         this.formContext.forceErrorDisplay = true;
+        this.globalErrors = [];
+
+        // On attend la fin des éventuelles validations asynchrones en cours.
+        if (this.entity.form && this.entity.form.isValidating) {
+            this.isLoading = true;
+            await when(() => !this.entity.form.isValidating);
+            runInAction("afterValidation", () => (this.isLoading = false));
+        }
 
         // On ne sauvegarde que si la validation est en succès.
         if (this.entity.form && !this.entity.form.isValid) {
             return Promise.reject({error: "Le formulaire est invalide", detail: this.entity.form.errors});
         }
 
+        // Les avertissements ne bloquent la sauvegarde que si l'utilisateur ne la confirme pas.
+        if (
+            this.config.confirmWarnings &&
+            this.entity.form.hasWarnings &&
+            !(await this.confirm(i18next.t(`${this.config.i18nPrefix || "focus"}.detail.confirmWarnings`)))
+        ) {
+            return Promise.reject({
+                error: "La sauvegarde a été refusée à cause des avertissements",
+                detail: this.entity.form.warnings
+            });
+        }
+
         try {
             this.isLoading = true;
-            const data = await this.actions.save(toFlatValues(this.entity));
+            this.isSaving = true;
+
+            // Une sauvegarde automatique en cours est terminée avant d'envoyer la sauvegarde manuelle, qui remplace celles à venir.
+            this.hasPendingAutosave = false;
+            if (this.autosaveRequest) {
+                await this.autosaveRequest.then(() => undefined, () => undefined);
+            }
+
+            const isCreation = this.isNew;
+            const data = await this.getSaveService(isCreation)(toFlatValues(this.entity));
+            this.removeDraft();
             runInAction("afterSave", () => {
                 this.isLoading = false;
+                this.isCreated = this.isCreated || isCreation;
+                setServerErrors(this.entity);
+                this.resetErrorDisplay();
                 this.entity.form.isEdit = false;
                 if (data) {
                     // En sauvegardant le retour du serveur dans le noeud de store, l'état du formulaire va se réinitialiser.
@@ -158,28 +387,234 @@ export class FormActions {
             if (this.config.onFormSaved) {
                 this.config.onFormSaved();
             }
+        } catch (error) {
+            this.setServerErrors(error);
+            throw error;
         } finally {
+            this.isSaving = false;
             this.isLoading = false;
         }
     }
 
+    /** Appelle le service de suppression, après confirmation de l'utilisateur, puis vide le noeud source. */
+    @action.bound
+    async delete() {
+        if (!this.actions.delete) {
+            return;
+        }
+
+        const i18nPrefix = this.config.i18nPrefix || "focus";
+        if (!(await this.confirm(i18next.t(`${i18nPrefix}.detail.confirmDelete`)))) {
+            return;
+        }
+
+        try {
+            runInAction("beforeDelete", () => {
+                this.isLoading = true;
+                this.globalErrors = [];
+            });
+            await this.actions.delete(toFlatValues(this.entity.sourceNode));
+            this.removeDraft();
+            runInAction("afterDelete", () => {
+                setServerErrors(this.entity);
+                this.resetErrorDisplay();
+                this.entity.form.isEdit = false;
+                this.entity.sourceNode.clear();
+            });
+
+            // Comme pour la sauvegarde, le message est supprimé s'il est vide.
+            const deletedMessage = i18next.t(`${i18nPrefix}.detail.deleted`);
+            if (deletedMessage) {
+                messageStore.addSuccessMessage(deletedMessage);
+            }
+            if (this.config.onFormDeleted) {
+                this.config.onFormDeleted();
+            }
+        } catch (error) {
+            this.setServerErrors(error);
+            throw error;
+        } finally {
+            runInAction("deleteEnd", () => (this.isLoading = false));
+        }
+    }
+
+    /**
+     * Appelle le service de sauvegarde sans quitter l'édition (appelé par la réaction de sauvegarde automatique).
+     * Une sauvegarde demandée pendant qu'une autre est en cours est effectuée à la fin de celle-ci, et aucune n'est effectuée pendant
+     * une sauvegarde manuelle (qui enregistre déjà toutes les modifications).
+     */
+    @action.bound
+    async autosave() {
+        if (this.isSaving) {
+            return;
+        } else if (this.isAutosaving) {
+            this.hasPendingAutosave = true;
+            return;
+        }
+
+        if (!this.hasUnsavedChanges || !this.entity.form.isValid) {
+            return;
+        }
+
+        this.isAutosaving = true;
+        const values = toFlatValues(this.entity);
+        const isCreation = this.isNew;
+        try {
+            this.autosaveRequest = this.getSaveService(isCreation)(values);
+            const data = await this.autosaveRequest;
+            this.removeDraft();
+            runInAction("afterAutosave", () => {
+                this.isCreated = this.isCreated || isCreation;
+                this.autosaveError = undefined;
+                this.globalErrors = [];
+                this.lastAutosave = new Date();
+                setServerErrors(this.entity);
+
+                // On ne met à jour le noeud source que si le formulaire n'a pas été modifié pendant la sauvegarde, pour ne pas perdre la saisie.
+                if (isEqual(toFlatValues(this.entity), values)) {
+                    if (isStoreNode(this.entity.sourceNode)) {
+                        this.entity.sourceNode.replace(data || values);
+                    } else {
+                        this.entity.sourceNode.replaceNodes(data || values);
+                    }
+                }
+            });
+        } catch (error) {
+            runInAction("autosaveError", () => (this.autosaveError = error));
+            this.setServerErrors(error);
+        } finally {
+            this.autosaveRequest = undefined;
+            runInAction("autosaveEnd", () => (this.isAutosaving = false));
+            if (this.hasPendingAutosave) {
+                this.hasPendingAutosave = false;
+                this.autosave();
+            }
+        }
+    }
+
     /** Change le mode du formulaire. */
     @action.bound
     toggleEdit(isEdit: boolean) {
         this.entity.form.isEdit = isEdit;
         if (!isEdit) {
+            this.globalErrors = [];
+            setServerErrors(this.entity);
             this.entity.reset();
+            this.resetErrorDisplay();
+            this.removeDraft();
         }
         if (this.config.onToggleEdit) {
             this.config.onToggleEdit(isEdit);
         }
     }
+
+    /**
+     * Annule l'éventuel chargement en cours, dont le retour sera ignoré.
+     * @returns Le numéro du prochain chargement.
+     */
+    @action
+    private cancelLoad() {
+        if (this.pendingLoad) {
+            if (this.pendingLoad.controller) {
+                this.pendingLoad.controller.abort();
+            }
+            this.pendingLoad = undefined;
+            this.isLoading = false;
+        }
+        return ++this.loadId;
+    }
+
+    /** Renvoie le service à appeler pour enregistrer le formulaire : la création s'il est en création, la sauvegarde sinon. */
+    private getSaveService(isCreation: boolean) {
+        return isCreation ? this.actions.create! : this.actions.save;
+    }
+
+    /** Précise si le formulaire est en édition et modifié. */
+    private get hasUnsavedChanges() {
+        return this.entity.form.isEdit && this.entity.form.isDirty;
+    }
+
+    /** Configuration des brouillons. */
+    private get draftConfig(): DraftConfig {
+        return this.config.draft === true ? {} : this.config.draft || {};
+    }
+
+    /** Stockage des brouillons. */
+    private get draftStorage() {
+        return this.draftConfig.storage || localStorage;
+    }
+
+    /** Demande une confirmation à l'utilisateur. */
+    private async confirm(message: string) {
+        const {confirm = (m: string) => window.confirm(m)} = this.config;
+        return confirm(message);
+    }
+
+    /** Demande au navigateur une confirmation avant de fermer l'onglet, si le formulaire est en édition et modifié. */
+    @action.bound
+    private onBeforeUnload(event: BeforeUnloadEvent) {
+        if (this.hasUnsavedChanges) {
+            event.preventDefault();
+            event.returnValue = ""; // Les navigateurs affichent leur propre message.
+        }
+    }
+
+    /**
+     * Place les erreurs renvoyées par le serveur sur les champs concernés, et les autres dans le résumé du formulaire.
+     * @param error L'erreur de la sauvegarde.
+     */
+    private setServerErrors(error: any) {
+        if (error && error.$parsedErrors) {
+            const {fields, globals} = (error as ManagedErrorResponse).$parsedErrors;
+            runInAction("serverErrors", () => {
+                this.globalErrors = [...globals, ...setServerErrors(this.entity, fields)];
+            });
+        }
+    }
+
+    /** Masque à nouveau les erreurs des champs, jusqu'à la prochaine saisie ou tentative de sauvegarde. */
+    private resetErrorDisplay() {
+        this.formContext.forceErrorDisplay = false;
+        resetTouched(this.entity);
+    }
+
+    /** Propose de restaurer l'éventuel brouillon du formulaire, par dessus les données chargées. */
+    private async restoreDraft() {
+        const key = this.draftKey;
+        if (!this.config.draft || !key) {
+            return;
+        }
+
+        const draft = this.draftStorage.getItem(key);
+        if (draft) {
+            if (await this.confirm(i18next.t(`${this.config.i18nPrefix || "focus"}.detail.restoreDraft`))) {
+                runInAction("restoreDraft", () => {
+                    if (isStoreNode(this.entity)) {
+                        this.entity.set(parseDraft(draft));
+                    } else {
+                        this.entity.setNodes(parseDraft(draft));
+                    }
+                    this.entity.form.isEdit = true;
+                });
+            } else {
+                this.removeDraft();
+            }
+        }
+    }
+
+    /** Supprime l'éventuel brouillon du formulaire. */
+    private removeDraft() {
+        const key = this.draftKey;
+        if (this.config.draft && key) {
+            this.draftStorage.removeItem(key);
+        }
+    }
 }
 
 /**
  * Crée un formulaire.
  * @param formNode Le FormNode du formulaire.
- * @param actions La config d'actions pour le formulaire ({getLoadParams, load, save}).
+ * @param actions La config d'actions pour le formulaire ({getLoadParams, load, save, create, delete}).
  * @param config Configuration additionnelle.
  */
 export function makeFormActions<T extends Entity>(
@@ -0,0 +1,44 @@
+import {Entity, EntityField, StoreNode} from "../types";
+import {AutoFieldOptions, AutoFormOptions} from "./auto-form";
+
+/** Identifiants des éléments de liste, pour que chaque ligne de tableau garde son état quand la liste est modifiée. */
+const rowKeys = new WeakMap<StoreNode, number>();
+let nextRowKey = 0;
+
+/**
+ * Récupère les entrées à afficher d'une entité, dans l'ordre.
+ * @param entity L'entité.
+ * @param options Les options du formulaire.
+ */
+export function getEntryKeys(entity: Entity, {hidden = [], order = []}: AutoFormOptions) {
+    const keys = [...(order as string[]), ...Object.keys(entity.fields).filter(key => order.indexOf(key) === -1)];
+    return keys.filter(key => key in entity.fields && (hidden as string[]).indexOf(key) === -1);
+}
+
+/**
+ * Détermine la fonction d'affichage d'un champ (`fieldFor`, `selectFor` ou `autocompleteFor`) selon ses options et son domaine.
+ * Un autocomplete n'a de sens qu'avec un service de recherche ou de résolution de code : sans, le champ est affiché avec `fieldFor`.
+ * @param field Le champ.
+ * @param options Les options du champ.
+ */
+export function getFieldKind(field: EntityField, {keyResolver, querySearcher, values}: AutoFieldOptions) {
+    const {domain} = field.$field;
+    if (values || (domain.selectProps && domain.selectProps.values)) {
+        return "select";
+    } else if (keyResolver || querySearcher) {
+        return "autocomplete";
+    } else {
+        return "field";
+    }
+}
+
+/**
+ * Récupère l'identifiant (stable) d'un élément de liste.
+ * @param item L'élément.
+ */
+export function getRowKey(item: StoreNode) {
+    if (!rowKeys.has(item)) {
+        rowKeys.set(item, nextRowKey++);
+    }
+    return rowKeys.get(item)!;
+}
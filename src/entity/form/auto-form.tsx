@@ -0,0 +1,221 @@
+import i18next from "i18next";
+import {toPairs} from "lodash";
+import {observer} from "mobx-react";
+import * as React from "react";
+import {Button, IconButton} from "react-toolbox/lib/button";
+
+import {AutocompleteResult, getIcon, Panel} from "../../components";
+import {ReferenceList} from "../../reference";
+import {themr} from "../../theme";
+
+import {autocompleteFor, fieldFor, FieldOptions, selectFor} from "../field";
+import {
+    Entity,
+    EntityField,
+    FieldComponents,
+    FormListNode,
+    FormNode,
+    isFormListNode,
+    ListEntry,
+    MapEntry,
+    ObjectEntry,
+    StoreListNode,
+    StoreMapNode,
+    StoreNode,
+    UnionEntry
+} from "../types";
+
+import {getEntryKeys, getFieldKind, getRowKey} from "./auto-form-utils";
+
+import * as styles from "./__style__/auto-form.css";
+export type AutoFormStyle = Partial<typeof styles>;
+const Theme = themr("autoForm", styles);
+
+/** Options d'un champ dans un formulaire automatique. */
+export type AutoFieldOptions = Partial<FieldOptions<any>> &
+    Partial<FieldComponents> & {
+        /** Service de résolution de code. Le champ sera un autocomplete. */
+        keyResolver?: (key: number | string) => Promise<string | undefined>;
+        /** Service de recherche. Le champ sera un autocomplete. */
+        querySearcher?: (text: string) => Promise<AutocompleteResult | undefined>;
+        /** Liste de référence. Le champ sera un select. */
+        values?: ReferenceList;
+    };
+
+/** Options d'un formulaire automatique. */
+export interface AutoFormOptions<T extends Entity = any> {
+    /** Options par entrée : options de champ pour un champ, options de formulaire automatique pour un sous-noeud, une liste ou un dictionnaire. */
+    fields?: {
+        [P in keyof T["fields"]]?: T["fields"][P] extends ObjectEntry<infer U>
+            ? AutoFormOptions<U>
+            : T["fields"][P] extends ListEntry<infer V>
+                ? AutoFormOptions<V>
+                : T["fields"][P] extends MapEntry<infer X>
+                    ? AutoFormOptions<X>
+                    : T["fields"][P] extends UnionEntry ? AutoFormOptions : AutoFieldOptions
+    };
+    /** Regroupe des entrées dans des Panels, affichés après les entrées non regroupées. */
+    groups?: {title: string; fields: (keyof T["fields"])[]}[];
+    /** Entrées à ne pas afficher. */
+    hidden?: (keyof T["fields"])[];
+    /** Préfixe i18n pour les icônes et les libellés. Par défaut : "focus". */
+    i18nPrefix?: string;
+    /** Ordre des entrées. Les entrées non précisées sont affichées ensuite, dans l'ordre de l'entité. */
+    order?: (keyof T["fields"])[];
+    /** CSS. */
+    theme?: AutoFormStyle;
+    /** Titre du Panel d'un sous-noeud, d'une liste ou d'un dictionnaire. Par défaut : "{nom de l'entité parente}.{nom de l'entrée}". */
+    title?: string;
+}
+
+/** Props du formulaire automatique. */
+export interface AutoFormProps {
+    /** Noeud à afficher. */
+    node: FormNode | StoreNode;
+    /** Options. */
+    options?: AutoFormOptions;
+}
+
+/** Formulaire généré à partir des métadonnées de l'entité d'un noeud. */
+@observer
+export class AutoForm extends React.Component<AutoFormProps> {
+    render() {
+        const {node, options = {}} = this.props;
+        const {groups = [], hidden = []} = options;
+        const grouped = groups.reduce((keys, group) => [...keys, ...(group.fields as string[])], [] as string[]);
+        return (
+            <>
+                {getEntryKeys(node.$entity, options)
+                    .filter(key => grouped.indexOf(key) === -1)
+                    .map(key => this.renderEntry(key))}
+                {groups.map(group => (
+                    <Panel key={group.title} buttonsPosition="none" title={group.title}>
+                        {(group.fields as string[])
+                            .filter(key => key in node.$entity.fields && (hidden as string[]).indexOf(key) === -1)
+                            .map(key => this.renderEntry(key))}
+                    </Panel>
+                ))}
+            </>
+        );
+    }
+
+    /** Affiche une entrée du noeud : un champ, un sous-noeud dans un Panel, une liste dans un tableau ou un dictionnaire (un Panel par clé). */
+    renderEntry(key: string) {
+        const {node, options = {}} = this.props;
+        const entry = node.$entity.fields[key];
+        const item = (node as any)[key];
+        const entryOptions = ((options.fields || {}) as any)[key] || {};
+
+        if (entry.type === "field") {
+            return <React.Fragment key={key}>{renderField(item, entryOptions)}</React.Fragment>;
+        }
+
+        const subOptions: AutoFormOptions = {i18nPrefix: options.i18nPrefix, theme: options.theme, ...entryOptions};
+        return (
+            <Panel key={key} buttonsPosition="none" title={subOptions.title || `${node.$entity.name}.${key}`}>
+                {entry.type === "list" ? (
+                    <AutoFormList list={item} options={subOptions} />
+                ) : entry.type === "map" ? (
+                    toPairs((item as StoreMapNode).toPOJO()).map(([mapKey, subNode]) => (
+                        <Panel key={mapKey} buttonsPosition="none" title={mapKey}>
+                            <AutoForm node={subNode} options={subOptions} />
+                        </Panel>
+                    ))
+                ) : item ? (
+                    <AutoForm node={item} options={subOptions} />
+                ) : null}
+            </Panel>
+        );
+    }
+}
+
+/** Tableau éditable des éléments d'une liste d'un formulaire automatique. */
+@observer
+class AutoFormList extends React.Component<{list: FormListNode | StoreListNode; options: AutoFormOptions}> {
+    render() {
+        const {list, options} = this.props;
+        const {i18nPrefix = "focus"} = options;
+        const isEdit = isFormListNode(list) && list.form.isEdit;
+
+        // Seuls les champs de l'entité sont affichés dans le tableau.
+        const keys = getEntryKeys(list.$entity, options).filter(key => list.$entity.fields[key].type === "field");
+        const fieldOptions = (options.fields || {}) as {[key: string]: AutoFieldOptions};
+
+        return (
+            <Theme theme={options.theme}>
+                {theme => (
+                    <>
+                        <table className={theme.table}>
+                            <thead>
+                                <tr>
+                                    {keys.map(key => (
+                                        <th key={key}>{i18next.t((list.$entity.fields[key] as any).label)}</th>
+                                    ))}
+                                    {isEdit ? <th /> : null}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {(list as StoreNode[]).map(item => (
+                                    <tr key={getRowKey(item)}>
+                                        {keys.map(key => (
+                                            <td key={key}>
+                                                {renderField((item as any)[key], {
+                                                    ...fieldOptions[key],
+                                                    hasLabel: false
+                                                })}
+                                            </td>
+                                        ))}
+                                        {isEdit ? (
+                                            <td className={theme.actions}>
+                                                <IconButton
+                                                    icon={getIcon(`${i18nPrefix}.icons.list.remove`)}
+                                                    onClick={() => (list as StoreListNode).removeNode(item)}
+                                                />
+                                            </td>
+                                        ) : null}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {isEdit ? (
+                            <Button
+                                className={theme.add}
+                                icon={getIcon(`${i18nPrefix}.icons.list.add`)}
+                                label={i18next.t(`${i18nPrefix}.list.add`)}
+                                onClick={() => list.pushNode({})}
+                            />
+                        ) : null}
+                    </>
+                )}
+            </Theme>
+        );
+    }
+}
+
+/**
+ * Crée un formulaire à partir des métadonnées de l'entité d'un noeud.
+ * @param node Le noeud (en général, un FormNode).
+ * @param options Les options du formulaire.
+ */
+export function autoFormFor<T extends Entity>(node: FormNode<T>, options?: AutoFormOptions<T>): JSX.Element;
+export function autoFormFor<T extends Entity>(node: StoreNode<T>, options?: AutoFormOptions<T>): JSX.Element;
+export function autoFormFor(node: FormNode | StoreNode, options: AutoFormOptions = {}) {
+    return <AutoForm node={node} options={options} />;
+}
+
+/**
+ * Affiche un champ avec `fieldFor`, `selectFor` ou `autocompleteFor` selon ses options et son domaine.
+ * @param field Le champ.
+ * @param options Les options du champ.
+ */
+function renderField(field: EntityField, fieldOptions: AutoFieldOptions) {
+    const {keyResolver, querySearcher, values, ...options} = fieldOptions;
+    switch (getFieldKind(field, fieldOptions)) {
+        case "select":
+            return selectFor(field, (values || field.$field.domain.selectProps!.values)!, options);
+        case "autocomplete":
+            return autocompleteFor(field, {...(options as {}), keyResolver, querySearcher});
+        default:
+            return fieldFor(field, options);
+    }
+}
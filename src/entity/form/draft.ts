@@ -0,0 +1,71 @@
+/** Stockage des brouillons de formulaire. L'API est celle du `localStorage`, qui est le stockage par défaut. */
+export interface DraftStorage {
+    /** Récupère le brouillon enregistré pour la clé donnée. */
+    getItem(key: string): string | null | undefined;
+    /** Supprime le brouillon enregistré pour la clé donnée. */
+    removeItem(key: string): void;
+    /** Enregistre un brouillon pour la clé donnée. */
+    setItem(key: string, value: string): void;
+}
+
+/** Configuration des brouillons d'un formulaire. */
+export interface DraftConfig {
+    /** Délai (en ms) entre deux enregistrements du brouillon. Par défaut : 2000. */
+    delay?: number;
+    /** Nom du formulaire dans la clé du brouillon. Par défaut : le nom de l'entité du FormNode. */
+    name?: string;
+    /** Stockage des brouillons. Par défaut : `localStorage`. */
+    storage?: DraftStorage;
+}
+
+/** Stockage de brouillons en mémoire (pour les tests, par exemple). */
+export class MemoryDraftStorage implements DraftStorage {
+    /** Brouillons enregistrés. */
+    private readonly data: {[key: string]: string} = {};
+
+    getItem(key: string) {
+        return this.data[key];
+    }
+
+    removeItem(key: string) {
+        delete this.data[key];
+    }
+
+    setItem(key: string, value: string) {
+        this.data[key] = value;
+    }
+}
+
+/**
+ * Construit la clé d'un brouillon.
+ * @param name Le nom du formulaire.
+ * @param params Les paramètres de chargement du formulaire.
+ */
+export function getDraftKey(name: string, params: any[] = []) {
+    return `focus.draft.${name}${params.length ? `.${JSON.stringify(params)}` : ""}`;
+}
+
+/**
+ * Sérialise les valeurs d'un brouillon. Les dates sont marquées pour pouvoir être restaurées telles quelles par `parseDraft`.
+ * @param values Les valeurs du formulaire.
+ */
+export function serializeDraft(values: {}) {
+    return JSON.stringify(values, function(this: any, key, value) {
+        // `value` est déjà passé par `Date.toJSON`, il faut regarder la valeur d'origine.
+        return this[key] instanceof Date ? {$date: value} : value;
+    });
+}
+
+/**
+ * Désérialise un brouillon enregistré par `serializeDraft`, en restaurant les dates.
+ * @param draft Le brouillon.
+ */
+export function parseDraft(draft: string) {
+    return JSON.parse(
+        draft,
+        (_, value) =>
+            value && typeof value === "object" && typeof value.$date === "string" && Object.keys(value).length === 1
+                ? new Date(value.$date)
+                : value
+    );
+}
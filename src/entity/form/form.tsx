@@ -3,6 +3,8 @@ import * as React from "react";
 
 import {themr} from "../../theme";
 
+import {ValidationMode} from "../types";
+
 import * as styles from "./__style__/form.css";
 export type FormStyle = Partial<typeof styles>;
 const Theme = themr("form", styles);
@@ -12,7 +14,9 @@ export interface FormProps {
     /** Voir `FormActions` */
     clean: () => void;
     /** Voir `FormActions` */
-    formContext: {forceErrorDisplay: boolean};
+    formContext: {forceErrorDisplay: boolean; validationMode?: ValidationMode};
+    /** Voir `FormActions` */
+    globalErrors?: string[];
     /** Retire le formulaire HTML */
     noForm?: boolean;
     /** Voir `FormActions` */
@@ -39,6 +43,7 @@ export class Form extends React.Component<FormProps> {
     }
 
     render() {
+        const {children, globalErrors = []} = this.props;
         if (this.props.noForm) {
             return (
                 <Theme theme={this.props.theme}>
@@ -51,13 +56,35 @@ export class Form extends React.Component<FormProps> {
                                 this.props.save();
                             }}
                         >
-                            <fieldset>{this.props.children}</fieldset>
+                            <fieldset>
+                                {this.renderErrors(theme)}
+                                {children}
+                            </fieldset>
                         </form>
                     )}
                 </Theme>
             );
+        } else if (globalErrors.length) {
+            return (
+                <Theme theme={this.props.theme}>
+                    {theme => (
+                        <>
+                            {this.renderErrors(theme)}
+                            {children}
+                        </>
+                    )}
+                </Theme>
+            );
         } else {
-            return this.props.children;
+            return children;
         }
     }
+
+    /** Affiche le résumé des erreurs globales. */
+    renderErrors(theme: FormStyle) {
+        const {globalErrors = []} = this.props;
+        return globalErrors.length ? (
+            <ul className={theme.errors}>{globalErrors.map((error, i) => <li key={i}>{error}</li>)}</ul>
+        ) : null;
+    }
 }
@@ -0,0 +1,249 @@
+import {
+    action,
+    computed,
+    IArrayChange,
+    IArraySplice,
+    IMapDidChange,
+    IObservableArray,
+    isComputedProp,
+    Lambda,
+    observable,
+    observe
+} from "mobx";
+
+import {config} from "../../config";
+
+import {disposeNode, restoreNode} from "../store";
+import {
+    EntityField,
+    FormListNode,
+    FormNode,
+    isEntityField,
+    isStoreListNode,
+    isStoreMapNode,
+    isStoreNode,
+    StoreListNode,
+    StoreMapNode,
+    StoreNode
+} from "../types";
+
+/** Modification élémentaire enregistrée dans l'historique. */
+type HistoryChange =
+    | {type: "field"; field: EntityField; oldValue: any; newValue: any}
+    | {type: "splice"; list: StoreListNode; index: number; added: StoreNode[]; removed: StoreNode[]}
+    | {type: "update"; list: StoreListNode; index: number; oldValue: StoreNode; newValue: StoreNode}
+    | {type: "map"; map: StoreMapNode; key: string; oldValue?: StoreNode; newValue?: StoreNode};
+
+/** Historique des modifications d'un FormNode, pour pouvoir les annuler et les rétablir. */
+export class FormHistory {
+    /** Etapes annulables, de la plus ancienne à la plus récente. Une étape regroupe des modifications rapprochées. */
+    private readonly undoStack: IObservableArray<HistoryChange[]> = observable.array([], {deep: false});
+    /** Etapes rétablissables, de la plus ancienne à la plus récente annulation. */
+    private readonly redoStack: IObservableArray<HistoryChange[]> = observable.array([], {deep: false});
+
+    /** Délai de regroupement des modifications. */
+    private readonly groupDelay: number;
+    /** Disposers des observers posés sur les champs et listes du FormNode. */
+    private readonly disposers: Lambda[] = [];
+    /** Objets (champs et listes) déjà observés. */
+    private readonly observed = new Set<{}>();
+    /** Les modifications ne sont pas enregistrées pendant qu'on applique une étape de l'historique. */
+    private isApplying = false;
+    /** Date de la dernière modification enregistrée. */
+    private lastChangeTime = 0;
+
+    /**
+     * Crée l'historique d'un FormNode.
+     * @param formNode Le FormNode.
+     * @param groupDelay Délai (en ms) en dessous duquel deux modifications successives sont regroupées dans la même étape.
+     */
+    constructor(formNode: FormNode | FormListNode, groupDelay = config.formHistoryGroupDelay) {
+        this.groupDelay = groupDelay;
+        this.track(formNode);
+    }
+
+    /** Précise s'il y a une étape à annuler. */
+    @computed
+    get canUndo() {
+        return !!this.undoStack.length;
+    }
+
+    /** Précise s'il y a une étape à rétablir. */
+    @computed
+    get canRedo() {
+        return !!this.redoStack.length;
+    }
+
+    /** Vide l'historique. */
+    @action.bound
+    clear() {
+        this.undoStack.clear();
+        this.redoStack.clear();
+        this.lastChangeTime = 0;
+    }
+
+    /** Supprime les observers posés sur le FormNode. */
+    dispose() {
+        this.disposers.forEach(disposer => disposer());
+        this.disposers.length = 0;
+        this.observed.clear();
+    }
+
+    /** Annule la dernière étape. */
+    @action.bound
+    undo() {
+        const step = this.undoStack.pop();
+        if (step) {
+            this.apply(step.slice().reverse(), true);
+            this.redoStack.push(step);
+        }
+    }
+
+    /** Rétablit la dernière étape annulée. */
+    @action.bound
+    redo() {
+        const step = this.redoStack.pop();
+        if (step) {
+            this.apply(step, false);
+            this.undoStack.push(step);
+        }
+    }
+
+    /**
+     * Applique (ou annule) une liste de modifications, sans les enregistrer.
+     * @param changes Les modifications.
+     * @param revert Annule les modifications au lieu de les appliquer.
+     */
+    private apply(changes: HistoryChange[], revert: boolean) {
+        this.isApplying = true;
+        try {
+            for (const change of changes) {
+                switch (change.type) {
+                    case "field":
+                        change.field.value = revert ? change.oldValue : change.newValue;
+                        break;
+                    case "splice":
+                        const [toRemove, toAdd] = revert
+                            ? [change.added, change.removed]
+                            : [change.removed, change.added];
+                        change.list.splice(change.index, toRemove.length, ...toAdd);
+                        toRemove.forEach(disposeNode);
+                        toAdd.forEach(restoreNode);
+                        break;
+                    case "update":
+                        change.list[change.index] = revert ? change.oldValue : change.newValue;
+                        disposeNode(revert ? change.newValue : change.oldValue);
+                        restoreNode(revert ? change.oldValue : change.newValue);
+                        break;
+                    case "map":
+                        const [removed, value] = revert
+                            ? [change.newValue, change.oldValue]
+                            : [change.oldValue, change.newValue];
+                        if (value) {
+                            change.map.set(change.key, value);
+                            restoreNode(value);
+                        } else {
+                            change.map.delete(change.key);
+                        }
+                        if (removed) {
+                            disposeNode(removed);
+                        }
+                        break;
+                }
+            }
+        } finally {
+            this.isApplying = false;
+            this.lastChangeTime = 0;
+        }
+    }
+
+    /**
+     * Enregistre une modification dans l'historique.
+     * @param change La modification.
+     */
+    @action
+    private record(change: HistoryChange) {
+        if (this.isApplying) {
+            return;
+        }
+
+        const now = Date.now();
+        if (this.undoStack.length && now - this.lastChangeTime < this.groupDelay) {
+            // Modification rapprochée de la précédente (saisie continue, `set` ou `replace`) : on l'ajoute à la dernière étape.
+            this.undoStack[this.undoStack.length - 1].push(change);
+        } else {
+            this.undoStack.push([change]);
+        }
+
+        this.lastChangeTime = now;
+        this.redoStack.clear();
+    }
+
+    /**
+     * Pose récursivement les observers sur les champs et les listes d'un noeud.
+     * @param node Le noeud.
+     */
+    private track(node: StoreNode | StoreListNode | StoreMapNode) {
+        if (isStoreListNode(node)) {
+            if (!this.observed.has(node)) {
+                this.observed.add(node);
+                this.disposers.push(
+                    observe(node, (change: IArrayChange<StoreNode> | IArraySplice<StoreNode>) => {
+                        if (change.type === "splice") {
+                            change.added.forEach(item => this.track(item));
+                            this.record({
+                                type: "splice",
+                                list: node,
+                                index: change.index,
+                                added: change.added,
+                                removed: change.removed
+                            });
+                        } else {
+                            this.track(change.newValue);
+                            this.record({
+                                type: "update",
+                                list: node,
+                                index: change.index,
+                                oldValue: change.oldValue,
+                                newValue: change.newValue
+                            });
+                        }
+                    })
+                );
+            }
+            node.forEach(item => this.track(item));
+        } else if (isStoreMapNode(node)) {
+            if (!this.observed.has(node)) {
+                this.observed.add(node);
+                this.disposers.push(
+                    observe(node, (change: IMapDidChange<string, StoreNode>) => {
+                        const oldValue = change.type === "add" ? undefined : change.oldValue;
+                        const newValue = change.type === "delete" ? undefined : change.newValue;
+                        if (newValue) {
+                            this.track(newValue);
+                        }
+                        this.record({type: "map", map: node, key: change.name, oldValue, newValue});
+                    })
+                );
+            }
+            node.forEach(item => this.track(item));
+        } else if (isStoreNode(node)) {
+            for (const key in node) {
+                if (key === "sourceNode") {
+                    continue; // Pas touche.
+                }
+                const item = (node as any)[key];
+                if (isStoreListNode(item) || isStoreMapNode(item) || isStoreNode(item)) {
+                    this.track(item);
+                } else if (isEntityField(item) && !isComputedProp(item, "value") && !this.observed.has(item)) {
+                    this.observed.add(item);
+                    this.disposers.push(
+                        observe(item, "value", ({oldValue, newValue}) =>
+                            this.record({type: "field", field: item, oldValue, newValue})
+                        )
+                    );
+                }
+            }
+        }
+    }
+}
@@ -1,3 +1,6 @@
-export {ActionConfig, makeFormActions} from "./actions";
+export {ActionConfig, AutosaveConfig, FormActions, FormConfig, makeFormActions} from "./actions";
+export {AutoFieldOptions, AutoForm, autoFormFor, AutoFormOptions, AutoFormStyle} from "./auto-form";
+export {DraftConfig, DraftStorage, MemoryDraftStorage} from "./draft";
 export {Form, FormStyle} from "./form";
-export {makeFormNode} from "./node";
+export {FormNodeConfig, makeFormNode} from "./node";
+export {FormWizard, makeFormWizard, WizardStep} from "./wizard";
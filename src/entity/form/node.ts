@@ -1,17 +1,29 @@
-import {extendObservable, observable, reaction} from "mobx";
+import {action, extendObservable, observable, reaction} from "mobx";
 
-import {nodeToFormNode, toFlatValues} from "../store";
+import {addUnionEntries, buildComputedField, disposeNode, nodeToFormNode, toFlatValues} from "../store";
 import {
     Entity,
     FormListNode,
     FormNode,
+    FormNodeHistory,
     isAnyFormNode,
     isEntityField,
     isStoreListNode,
+    isStoreMapNode,
     isStoreNode,
     StoreListNode,
+    StoreMapNode,
     StoreNode
 } from "../types";
+import {FormHistory} from "./history";
+
+/** Configuration additionnelle du FormNode. */
+export interface FormNodeConfig {
+    /** Active l'historique des modifications (`undo()`/`redo()`). */
+    history?: boolean;
+    /** Délai (en ms) en dessous duquel deux modifications successives sont regroupées dans la même étape de l'historique. Par défaut : 500. */
+    historyGroupDelay?: number;
+}
 
 /**
  * Construit un FormNode à partir d'un StoreNode.
@@ -20,21 +32,25 @@ import {
  * @param node Le noeud de base
  * @param transform La fonction de transformation
  * @param isEdit L'état initial ou la condition d'édition.
+ * @param config Configuration additionnelle (historique).
  */
 export function makeFormNode<T extends Entity, U = {}>(
     node: StoreListNode<T>,
     isEdit?: boolean | (() => boolean),
-    transform?: (source: StoreNode<T>) => U
-): FormListNode<T, U> & {stopSync(): void};
+    transform?: (source: StoreNode<T>) => U,
+    config?: FormNodeConfig
+): FormListNode<T, U> & FormNodeHistory & {stopSync(): void};
 export function makeFormNode<T extends Entity, U = {}>(
     node: StoreNode<T>,
     isEdit?: boolean | (() => boolean),
-    transform?: (source: StoreNode<T>) => U
-): FormNode<T, U> & {stopSync(): void};
+    transform?: (source: StoreNode<T>) => U,
+    config?: FormNodeConfig
+): FormNode<T, U> & FormNodeHistory & {stopSync(): void};
 export function makeFormNode<T extends Entity, U = {}>(
     node: StoreNode<T> | StoreListNode<T>,
     isEdit: boolean | (() => boolean) = false,
-    transform: (source: StoreNode<T>) => U = _ => ({} as U)
+    transform: (source: StoreNode<T>) => U = _ => ({} as U),
+    config: FormNodeConfig = {}
 ) {
     if (isAnyFormNode(node)) {
         throw new Error("Impossible de créer un FormNode à partir d'un autre FormNode.");
@@ -42,7 +58,38 @@ export function makeFormNode<T extends Entity, U = {}>(
 
     const formNode = clone(node, transform);
     nodeToFormNode(formNode, node, isEdit);
-    formNode.stopSync = reaction(() => toFlatValues(node), formNode.reset);
+
+    // L'historique n'est posé que si on le demande. Sans historique, il n'y a jamais rien à annuler ou rétablir.
+    const history = config.history ? new FormHistory(formNode, config.historyGroupDelay) : undefined;
+    extendObservable(formNode, {
+        get canUndo() {
+            return !!history && history.canUndo;
+        },
+        get canRedo() {
+            return !!history && history.canRedo;
+        }
+    });
+    formNode.undo = history ? history.undo : () => null;
+    formNode.redo = history ? history.redo : () => null;
+
+    // Une réinitialisation (annulation, mise à jour du StoreNode) vide l'historique, pour ne pas pouvoir rétablir les modifications abandonnées.
+    if (history) {
+        const {reset} = formNode;
+        formNode.reset = action("formNode.reset", () => {
+            reset();
+            history.clear();
+        });
+    }
+
+    // Une mise à jour du StoreNode réinitialise le FormNode.
+    const syncDisposer = reaction(() => toFlatValues(node), () => formNode.reset());
+    formNode.stopSync = () => {
+        syncDisposer();
+        disposeNode(formNode);
+        if (history) {
+            history.dispose();
+        }
+    };
 
     return formNode;
 }
@@ -60,17 +107,40 @@ function clone(source: any, transform?: (node: any) => any): any {
         res = observable.array(res, {deep: false}) as StoreListNode;
 
         (res as any).$entity = source.$entity;
+        (res as any).$keyField = source.$keyField;
+        res.insertNode = source.insertNode;
+        res.moveNode = source.moveNode;
         res.pushNode = source.pushNode;
+        res.removeNode = source.removeNode;
         res.replaceNodes = source.replaceNodes;
         res.setNodes = source.setNodes;
         res.$transform = transform || source.$transform;
 
+        return res;
+    } else if (isStoreMapNode(source)) {
+        const res = observable.map<string, StoreNode>({}, {deep: false}) as StoreMapNode;
+        source.forEach((item, key) => res.set(key, clone(item)));
+
+        (res as any).$entity = source.$entity;
+        res.replaceNodes = source.replaceNodes;
+        res.setNodes = source.setNodes;
+
         return res;
     } else if (isStoreNode(source)) {
         const res: typeof source = {} as any;
+        const unionNodes: {[key: string]: StoreNode | undefined} = {};
         for (const key in source) {
-            (res as any)[key] = clone((source as any)[key]);
+            const item = (source as any)[key];
+            const entry = source.$entity && source.$entity.fields[key];
+            if (entry && entry.type === "union") {
+                unionNodes[key] = clone(item);
+            } else {
+                // Un champ calculé de l'entité est recalculé à partir du clone.
+                (res as any)[key] =
+                    isEntityField(item) && item.$field.computed ? buildComputedField(item.$field, res) : clone(item);
+            }
         }
+        addUnionEntries(res, unionNodes);
         if (transform) {
             Object.assign(res, transform(res) || {});
         }
@@ -0,0 +1,159 @@
+import {action, computed, observable, runInAction, when} from "mobx";
+
+import {Entity, FormNode} from "../types";
+import {FormActions} from "./actions";
+
+/** Etape d'un formulaire en plusieurs étapes. */
+export interface WizardStep<T extends Entity = any> {
+    /** Nom de l'étape (à utiliser comme clé i18n du libellé par exemple). */
+    name: string;
+    /** Entrées du noeud (champs, sous-noeuds ou listes) saisies dans l'étape, qui doivent être valides pour passer à la suivante. */
+    fields: (keyof T["fields"])[];
+    /** Condition d'affichage de l'étape. Par défaut, l'étape est toujours affichée. */
+    when?: (node: FormNode<T>) => boolean;
+}
+
+/**
+ * Gère un formulaire en plusieurs étapes, qui se partagent un même FormNode.
+ * Le passage à l'étape suivante est bloqué tant que les entrées de l'étape courante ne sont pas valides,
+ * et la dernière étape appelle la sauvegarde du `FormActions` avec le noeud complet.
+ */
+export class FormWizard<T extends Entity = any> {
+    /** Nom de l'étape courante. */
+    @observable private currentStepName: string;
+
+    /** Actions du formulaire. */
+    private readonly formActions: FormActions;
+    /** FormNode du formulaire. */
+    private readonly formNode: FormNode<T>;
+    /** Toutes les étapes, y compris celles qui ne sont pas affichées. */
+    private readonly steps: WizardStep<T>[];
+
+    constructor(formNode: FormNode<T>, formActions: FormActions, steps: WizardStep<T>[]) {
+        if (!steps.length) {
+            throw new Error("Un formulaire en plusieurs étapes doit avoir au moins une étape.");
+        }
+
+        this.formActions = formActions;
+        this.formNode = formNode;
+        this.steps = steps;
+        this.currentStepName = steps[0].name;
+    }
+
+    /** Etapes affichées, d'après leurs conditions. */
+    @computed
+    get activeSteps() {
+        return this.steps.filter(step => !step.when || step.when(this.formNode));
+    }
+
+    /** Etape courante. Si elle n'est plus affichée, on revient à la première étape. Vaut `undefined` si aucune étape n'est affichée. */
+    @computed
+    get currentStep(): WizardStep<T> | undefined {
+        return this.activeSteps.find(step => step.name === this.currentStepName) || this.activeSteps[0];
+    }
+
+    /** Index de l'étape courante parmi les étapes affichées (-1 si aucune étape n'est affichée). */
+    @computed
+    get currentIndex() {
+        return this.currentStep ? this.activeSteps.indexOf(this.currentStep) : -1;
+    }
+
+    /** Précise si l'étape courante est la première. */
+    @computed
+    get isFirst() {
+        return this.currentIndex === 0;
+    }
+
+    /** Précise si l'étape courante est la dernière (qui sauvegarde le formulaire). */
+    @computed
+    get isLast() {
+        return !!this.currentStep && this.currentIndex === this.activeSteps.length - 1;
+    }
+
+    /** Précise si les entrées de l'étape courante sont valides, d'après les erreurs du FormNode. Toujours faux si aucune étape n'est affichée. */
+    @computed
+    get isStepValid() {
+        if (!this.currentStep) {
+            return false;
+        }
+        const errors = this.formNode.form.errors as {[key: string]: any};
+        return (this.currentStep.fields as string[]).every(key => !errors[key]);
+    }
+
+    /** Avancement du formulaire, entre 0 (première étape) et 1 (dernière étape). Vaut 0 si aucune étape n'est affichée. */
+    @computed
+    get progress() {
+        if (!this.currentStep) {
+            return 0;
+        }
+        return this.activeSteps.length > 1 ? this.currentIndex / (this.activeSteps.length - 1) : 1;
+    }
+
+    /**
+     * Revient sur une étape précédente (ou l'étape courante).
+     * @param name Le nom de l'étape.
+     */
+    @action.bound
+    goTo(name: string) {
+        const index = this.activeSteps.findIndex(step => step.name === name);
+        if (index !== -1 && index <= this.currentIndex) {
+            this.currentStepName = name;
+        }
+    }
+
+    /**
+     * Passe à l'étape suivante si les entrées de l'étape courante sont valides (les erreurs sont affichées sinon),
+     * ou sauvegarde le formulaire depuis la dernière étape.
+     * @returns `true` si on a changé d'étape ou sauvegardé le formulaire, `false` sinon (y compris si la sauvegarde a échoué ou a été refusée, et si aucune étape n'est affichée).
+     */
+    @action.bound
+    async next() {
+        // On attend la fin des éventuelles validations asynchrones en cours.
+        if (this.formNode.form.isValidating) {
+            await when(() => !this.formNode.form.isValidating);
+        }
+
+        if (!this.isStepValid) {
+            runInAction("wizardInvalidStep", () => (this.formActions.formContext.forceErrorDisplay = true));
+            return false;
+        }
+
+        if (this.isLast) {
+            try {
+                await this.formActions.save();
+                return true;
+            } catch {
+                // Les erreurs (de validation ou serveur) sont déjà affichées sur le formulaire par la sauvegarde.
+                return false;
+            }
+        }
+
+        runInAction("wizardNext", () => {
+            this.formActions.formContext.forceErrorDisplay = false;
+            this.currentStepName = this.activeSteps[this.currentIndex + 1].name;
+        });
+        return true;
+    }
+
+    /** Revient à l'étape précédente. */
+    @action.bound
+    previous() {
+        if (this.currentIndex > 0) {
+            this.currentStepName = this.activeSteps[this.currentIndex - 1].name;
+        }
+    }
+}
+
+/**
+ * Crée un formulaire en plusieurs étapes.
+ * @param formNode Le FormNode du formulaire.
+ * @param formActions Les actions du formulaire (dont la sauvegarde est appelée par la dernière étape).
+ * @param steps Les étapes du formulaire, dans l'ordre.
+ */
+export function makeFormWizard<T extends Entity>(
+    formNode: FormNode<T>,
+    formActions: FormActions,
+    steps: WizardStep<T>[]
+) {
+    return new FormWizard(formNode, formActions, steps);
+}
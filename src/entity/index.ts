@@ -1,8 +1,39 @@
+export {extendEntity, omitEntity, pickEntity} from "./entity";
 export {Field, FieldStyle} from "./field";
 export {autocompleteFor, fieldFor, fromField, makeField, patchField, selectFor, stringFor} from "./field";
-export {ActionConfig, Form, FormStyle, makeFormActions, makeFormNode} from "./form";
+export {
+    ActionConfig,
+    AutoFieldOptions,
+    AutoForm,
+    autoFormFor,
+    AutoFormOptions,
+    AutoFormStyle,
+    AutosaveConfig,
+    DraftConfig,
+    DraftStorage,
+    Form,
+    FormActions,
+    FormConfig,
+    FormNodeConfig,
+    FormStyle,
+    FormWizard,
+    makeFormActions,
+    makeFormNode,
+    makeFormWizard,
+    MemoryDraftStorage,
+    WizardStep
+} from "./form";
 export {formatNumber} from "./formatter";
-export {buildNode, makeEntityStore, nodeToFormNode, patchNodeEdit, toFlatValues} from "./store";
+export {
+    buildNode,
+    makeEntityStore,
+    nodeToFormNode,
+    patchNodeEdit,
+    patchNodeValidators,
+    resetTouched,
+    setServerErrors,
+    toFlatValues
+} from "./store";
 export {
     Domain,
     Entity,
@@ -11,8 +42,18 @@ export {
     FieldEntry,
     FormEntityField,
     FormNode,
+    FormNodeHistory,
+    isEntityField,
+    ListChanges,
     ListEntry,
+    MapChanges,
+    MapEntry,
+    NodeToChanges,
+    NodeValidator,
     ObjectEntry,
     StoreListNode,
-    StoreNode
+    StoreMapNode,
+    StoreNode,
+    UnionEntry,
+    ValidationMode
 } from "./types";
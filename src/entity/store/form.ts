@@ -1,38 +1,58 @@
-import {isBoolean, isFunction, toPairs} from "lodash";
-import {action, extendObservable, observable} from "mobx";
+import {isBoolean, isEqual, isFunction, mapValues, toPairs} from "lodash";
+import {action, extendObservable, isComputedProp, isObservableMap, observable, reaction, runInAction} from "mobx";
+
+import {config} from "../../config";
 
 import {
     Entity,
     EntityField,
+    EntityToType,
     FormEntityField,
     FormListNode,
+    FormMapNode,
     FormNode,
     isAnyFormNode,
     isAnyStoreNode,
     isEntityField,
     isFormListNode,
+    isFormMapNode,
     isFormNode,
+    ListChanges,
+    MapChanges,
+    NodeValidator,
     StoreListNode,
+    StoreMapNode,
     StoreNode
 } from "../types";
-import {validateField} from "../validation";
+import {
+    evaluateFieldRule,
+    getAsyncValidators,
+    getFieldWarning,
+    validateField,
+    validateFieldAsync,
+    validateNode
+} from "../validation";
 import {replaceNode} from "./store";
+import {addNodeReaction, toFlatValues} from "./util";
 
 /**
- * Transforme un Store(List)Node en Form(List)Node.
+ * Transforme un Store(List|Map)Node en Form(List|Map)Node.
  * @param node Le FormNode en cours de création.
  * @param sourceNode Le node origine du FormNode.
  * @param parentNodeOrEditing Node parent, (l'état initial ou la condition) d'édition.
  */
 export function nodeToFormNode<T extends Entity = any, U = {}>(
-    node: StoreNode<T> & U | StoreListNode<T, U>,
-    sourceNode: StoreNode<T> | StoreListNode<T>,
-    parentNodeOrEditing: FormNode | FormListNode | boolean | (() => boolean)
+    node: StoreNode<T> & U | StoreListNode<T, U> | StoreMapNode<T>,
+    sourceNode: StoreNode<T> | StoreListNode<T> | StoreMapNode<T>,
+    parentNodeOrEditing: FormNode | FormListNode | FormMapNode | boolean | (() => boolean)
 ) {
-    const {$tempEdit} = node;
+    const {$tempEdit, $tempValidators = []} = node as StoreNode<T>;
     if ($tempEdit !== undefined) {
         delete node.$tempEdit;
     }
+    if ((node as StoreNode<T>).$tempValidators) {
+        delete (node as StoreNode<T>).$tempValidators;
+    }
 
     (node as any).form = observable({
         _isEdit:
@@ -53,26 +73,110 @@ export function nodeToFormNode<T extends Entity = any, U = {}>(
     if (isFormListNode(node)) {
         node.forEach((item, i) => nodeToFormNode(item, (sourceNode as StoreListNode)[i], node));
         extendObservable(node.form, {
+            get isDirty() {
+                return (
+                    isFormListNode(node) &&
+                    (node.length !== (sourceNode as StoreListNode).length ||
+                        node.some(
+                            (item, i) => item.sourceNode !== (sourceNode as StoreListNode)[i] || item.form.isDirty
+                        ))
+                );
+            },
             get isValid() {
                 return isFormListNode(node) && node.every(item => item.form.isValid);
             },
+            get isValidating() {
+                return isFormListNode(node) && node.some(item => item.form.isValidating);
+            },
+            get changes() {
+                return isFormListNode(node) && getChanges(node);
+            },
             get errors() {
                 return (isFormListNode(node) && node.map(item => item.form.errors)) || [];
+            },
+            get hasWarnings() {
+                return isFormListNode(node) && node.some(item => item.form.hasWarnings);
+            },
+            get warnings() {
+                return (isFormListNode(node) && node.map(item => item.form.warnings)) || [];
+            }
+        });
+    } else if (isFormMapNode(node)) {
+        node.forEach((item, key) => nodeToFormNode(item, (sourceNode as StoreMapNode).get(key)!, node));
+        extendObservable(node.form, {
+            get isDirty() {
+                return (
+                    isFormMapNode(node) &&
+                    (node.size !== (sourceNode as StoreMapNode).size ||
+                        toPairs(node.toPOJO()).some(
+                            ([key, item]) =>
+                                item.sourceNode !== (sourceNode as StoreMapNode).get(key) || item.form.isDirty
+                        ))
+                );
+            },
+            get isValid() {
+                return isFormMapNode(node) && toPairs(node.toPOJO()).every(([_, item]) => item.form.isValid);
+            },
+            get isValidating() {
+                return isFormMapNode(node) && toPairs(node.toPOJO()).some(([_, item]) => item.form.isValidating);
+            },
+            get changes() {
+                return isFormMapNode(node) && getChanges(node);
+            },
+            get errors() {
+                return (isFormMapNode(node) && mapValues(node.toPOJO(), (item: FormNode) => item.form.errors)) || {};
+            },
+            get hasWarnings() {
+                return isFormMapNode(node) && toPairs(node.toPOJO()).some(([_, item]) => item.form.hasWarnings);
+            },
+            get warnings() {
+                return (isFormMapNode(node) && mapValues(node.toPOJO(), (item: FormNode) => item.form.warnings)) || {};
             }
         });
     } else if (isFormNode(node)) {
+        // Les validateurs de noeud sont ceux de l'entité, complétés par ceux ajoutés par `patchNodeValidators`.
+        const validators = [...((node.$entity && node.$entity.validators) || []), ...$tempValidators];
+        extendObservable(node.form, {
+            get _nodeErrors() {
+                return validators.length ? validateNode(toFlatValues(node), validators) : {};
+            }
+        });
+
         for (const entry in node) {
             const child: {} = (node as any)[entry];
             if (isEntityField(child)) {
-                addFormFieldProperties(child, node);
+                addFormFieldProperties(child, entry, node, (sourceNode as any)[entry]);
             } else if (isAnyStoreNode(child)) {
                 nodeToFormNode(child, (sourceNode as any)[entry], node);
             }
         }
         extendObservable(node.form, {
+            get isDirty() {
+                return (
+                    isFormNode(node) &&
+                    toPairs(node).some(
+                        ([key, item]) =>
+                            (isEntityField(item) && (item as FormEntityField).isDirty) ||
+                            // Le sous-noeud d'une entrée "union" reconstruit avec une autre entité n'a plus le même noeud source.
+                            (isAnyFormNode(item) &&
+                                item !== (node as any) &&
+                                (item.form.isDirty || item.sourceNode !== (sourceNode as any)[key]))
+                    )
+                );
+            },
             get isValid() {
                 return !Object.keys(this.errors).length;
             },
+            get isValidating() {
+                return (
+                    isFormNode(node) &&
+                    toPairs(node).some(
+                        ([_, item]) =>
+                            (isEntityField(item) && (item as FormEntityField).isValidating) ||
+                            (isAnyFormNode(item) && item !== (node as any) && item.form.isValidating)
+                    )
+                );
+            },
             get errors() {
                 return (
                     (isFormNode(node) &&
@@ -91,14 +195,38 @@ export function nodeToFormNode<T extends Entity = any, U = {}>(
                         }, {})) ||
                     {}
                 );
+            },
+            get hasWarnings() {
+                return !!Object.keys(this.warnings).length;
+            },
+            get warnings() {
+                return (
+                    (isFormNode(node) &&
+                        toPairs(node).reduce((warnings, [key, item]) => {
+                            if (isEntityField(item)) {
+                                const {warning} = item as FormEntityField;
+                                if (warning) {
+                                    return {...warnings, [key]: warning};
+                                }
+                            } else if (isAnyFormNode(item) && item !== (node as any)) {
+                                if (item.form.hasWarnings) {
+                                    return {...warnings, [key]: item.form.warnings};
+                                }
+                            }
+                            return warnings;
+                        }, {})) ||
+                    {}
+                );
             }
         });
     }
 
     if (isAnyFormNode(node)) {
+        node.getChanges = () => getChanges(node);
         node.reset = action("formNode.reset", () => {
-            node.clear();
+            // Pas de `clear` préalable, pour que les listes avec clé conservent leurs éléments (et leur état).
             replaceNode(node as any, sourceNode as any);
+            resetTouched(node as any);
         });
         (node as any).sourceNode = sourceNode as any;
     }
@@ -110,29 +238,275 @@ export function nodeToFormNode<T extends Entity = any, U = {}>(
  * @param isEdit L'état initial ou la condition d'édition.
  */
 export function patchNodeEdit<T extends Entity = any, U = {}>(
-    node: StoreNode<T> | StoreListNode<T, U>,
+    node: StoreNode<T> | StoreListNode<T, U> | StoreMapNode<T>,
     isEdit: boolean | (() => boolean)
 ) {
     node.$tempEdit = isEdit;
 }
 
+/**
+ * Ajoute des validateurs de noeud à un StoreNode (dans un FormNode), en plus de ceux de son entité.
+ * @param node Le noeud de store.
+ * @param validators Les validateurs de noeud.
+ */
+export function patchNodeValidators<T extends Entity = any>(
+    node: StoreNode<T>,
+    ...validators: NodeValidator<EntityToType<T>>[]
+) {
+    node.$tempValidators = [...(node.$tempValidators || []), ...validators];
+}
+
+/**
+ * Place les erreurs de champ renvoyées par le serveur sur les champs d'un FormNode, en remplacement des précédentes.
+ * @param node Le FormNode.
+ * @param errors Les erreurs, par chemin de champ ("champ", "noeud.champ", "liste[0].champ", "liste.0.champ" ou "dictionnaire.clé.champ").
+ * @returns Les messages des erreurs qui ne correspondent à aucun champ.
+ */
+export function setServerErrors<T extends Entity>(node: FormListNode<T>, errors?: Record<string, string>): string[];
+export function setServerErrors<T extends Entity>(node: FormNode<T>, errors?: Record<string, string>): string[];
+export function setServerErrors(node: FormNode | FormListNode, errors?: Record<string, string>): string[];
+export function setServerErrors(node: FormNode | FormListNode, errors: Record<string, string> = {}) {
+    return runInAction("setServerErrors", () => {
+        clearServerErrors(node);
+        return toPairs(errors)
+            .filter(([path, message]) => {
+                const field = getFieldByPath(node, path);
+                if (field) {
+                    (field as any)._serverError = {message, value: field.value};
+                }
+                return !field;
+            })
+            .map(([_, message]) => message);
+    });
+}
+
+/**
+ * Réinitialise l'état "touché" des champs d'un FormNode, pour masquer à nouveau leurs erreurs.
+ * @param node Le FormNode.
+ */
+export function resetTouched<T extends Entity>(node: FormListNode<T>): void;
+export function resetTouched<T extends Entity>(node: FormNode<T>): void;
+export function resetTouched(node: FormNode | FormListNode): void;
+export function resetTouched(node: FormNode | FormListNode) {
+    runInAction("resetTouched", () => forEachField(node, field => (field.touched = false)));
+}
+
+/**
+ * Efface les erreurs serveur des champs d'un noeud de formulaire.
+ * @param node Le noeud de formulaire.
+ */
+function clearServerErrors(node: FormNode | FormListNode) {
+    forEachField(node, field => ((field as any)._serverError = undefined));
+}
+
+/**
+ * Applique une fonction à tous les champs d'un noeud de formulaire, sous-noeuds et listes compris.
+ * @param node Le noeud de formulaire.
+ * @param fn La fonction.
+ */
+function forEachField(node: FormNode | FormListNode | FormMapNode, fn: (field: FormEntityField) => void) {
+    if (isFormListNode(node)) {
+        node.forEach(item => forEachField(item, fn));
+    } else if (isFormMapNode(node)) {
+        node.forEach(item => forEachField(item, fn));
+    } else {
+        toPairs(node).forEach(([_, item]) => {
+            if (isEntityField(item)) {
+                fn(item as FormEntityField);
+            } else if (isAnyFormNode(item) && item !== (node as any)) {
+                forEachField(item, fn);
+            }
+        });
+    }
+}
+
+/**
+ * Récupère le champ d'un noeud de formulaire à partir de son chemin.
+ * @param node Le noeud de formulaire.
+ * @param path Le chemin du champ.
+ */
+function getFieldByPath(node: FormNode | FormListNode, path: string) {
+    const keys = path.replace(/\[(\d+)\]/g, ".$1").split(".");
+
+    // Le serveur peut préfixer le chemin par le nom de l'entité.
+    if (keys.length > 1 && node.$entity && keys[0] === node.$entity.name && !(keys[0] in node)) {
+        keys.shift();
+    }
+
+    let item: any = node;
+    for (const key of keys) {
+        if (!item || key === "sourceNode" || key === "form") {
+            return undefined;
+        }
+        item = isObservableMap(item) ? item.get(key) : item[key];
+    }
+    return isEntityField(item) ? (item as FormEntityField) : undefined;
+}
+
+/**
+ * Récupère les modifications d'un noeud de formulaire par rapport à son noeud source.
+ * @param node Le noeud de formulaire.
+ */
+function getChanges(node: FormNode | FormListNode | FormMapNode): {} {
+    // Cas du noeud de liste : on distingue les éléments ajoutés, retirés et modifiés à partir de leurs noeuds sources.
+    if (isFormListNode(node)) {
+        const sourceList = node.sourceNode;
+        const changes: ListChanges = {
+            added: node.filter(item => sourceList.indexOf(item.sourceNode) === -1).map(toFlatValues),
+            modified: node
+                .map((item, index) => ({item, index}))
+                .filter(({item}) => sourceList.indexOf(item.sourceNode) !== -1 && item.form.isDirty)
+                .map(({item, index}) => ({index, changes: item.getChanges(), value: toFlatValues(item)})),
+            removed: sourceList.filter(source => !node.some(item => item.sourceNode === source)).map(toFlatValues)
+        };
+        return changes;
+    }
+
+    // Cas du noeud dictionnaire : même chose que pour une liste, par clé.
+    if (isFormMapNode(node)) {
+        const sourceMap = node.sourceNode;
+        const changes: MapChanges = {added: {}, modified: {}, removed: {}};
+        const {added, modified, removed} = changes;
+        node.forEach((item, key) => {
+            if (item.sourceNode !== sourceMap.get(key)) {
+                added[key] = toFlatValues(item);
+            } else if (item.form.isDirty) {
+                modified[key] = {changes: item.getChanges(), value: toFlatValues(item)};
+            }
+        });
+        sourceMap.forEach((source, key) => {
+            const item = node.get(key);
+            if (!item || item.sourceNode !== source) {
+                removed[key] = toFlatValues(source);
+            }
+        });
+        return changes;
+    }
+
+    // Cas du noeud simple : on ne garde que les champs et sous-noeuds modifiés.
+    return toPairs(node).reduce((changes, [key, item]) => {
+        if (isEntityField(item)) {
+            if ((item as FormEntityField).isDirty) {
+                return {...changes, [key]: item.value};
+            }
+        } else if (isAnyFormNode(item) && item !== (node as any)) {
+            // Le sous-noeud d'une entrée "union" reconstruit avec une autre entité est entièrement modifié.
+            if (item.sourceNode !== (node.sourceNode as any)[key]) {
+                return {...changes, [key]: toFlatValues(item)};
+            } else if (item.form.isDirty) {
+                return {...changes, [key]: getChanges(item)};
+            }
+        }
+        return changes;
+    }, {});
+}
+
 /** Ajoute les champs erreurs et d'édition sur un EntityField. */
-function addFormFieldProperties(field: EntityField, parentNode: FormNode) {
+function addFormFieldProperties(field: EntityField, key: string, parentNode: FormNode, sourceField?: EntityField) {
     const {isEdit} = field as FormEntityField;
     delete (field as FormEntityField).isEdit;
-    extendObservable(field, {
-        _isEdit: isBoolean(isEdit) ? isEdit : true,
-        get error() {
-            return validateField(field);
-        },
-        get isEdit() {
-            return this._isEdit && parentNode.form.isEdit && (isFunction(isEdit) ? isEdit() : true);
-        },
-        set isEdit(edit) {
-            this._isEdit = edit;
+    extendObservable(
+        field,
+        {
+            _asyncError: undefined,
+            _isEdit: isBoolean(isEdit) ? isEdit : true,
+            _isValidating: false,
+            _serverError: undefined as {message: string; value: any} | undefined,
+            touched: false,
+            get error() {
+                return (
+                    validateField(field, parentNode) ||
+                    this._asyncError ||
+                    (parentNode.form as any)._nodeErrors[key] ||
+                    this.serverError
+                );
+            },
+            get isEdit() {
+                // Un champ calculé de l'entité ou en lecture seule n'est jamais en édition.
+                return (
+                    !field.$field.computed &&
+                    !this.isReadonly &&
+                    this._isEdit &&
+                    parentNode.form.isEdit &&
+                    (isFunction(isEdit) ? isEdit() : true)
+                );
+            },
+            set isEdit(edit) {
+                this._isEdit = edit;
+            },
+            get isDirty() {
+                // Un champ calculé ou sans champ source (ajouté par la transformation) n'est jamais considéré comme modifié.
+                return (
+                    !!sourceField &&
+                    sourceField !== field &&
+                    isEntityField(sourceField) &&
+                    !isComputedProp(field, "value") &&
+                    !isEqual(field.value, sourceField.value)
+                );
+            },
+            get isReadonly() {
+                return evaluateFieldRule(field.$field.isReadonly, parentNode);
+            },
+            get isRequired() {
+                return evaluateFieldRule(field.$field.isRequired, parentNode);
+            },
+            get isValid() {
+                return !this.isEdit || !this.error;
+            },
+            get warning() {
+                // Un avertissement n'est affiché que sur un champ en édition et sans erreur.
+                return (this.isEdit && !this.error && getFieldWarning(field)) || undefined;
+            },
+            get isValidating() {
+                return this._isValidating;
+            },
+            get serverError() {
+                // L'erreur serveur ne concerne que la valeur envoyée : elle disparaît dès que la valeur change.
+                const {_serverError} = this;
+                return (_serverError && isEqual(_serverError.value, field.value) && _serverError.message) || undefined;
+            }
         },
-        get isValid() {
-            return !this.isEdit || !this.error;
-        }
+        {_serverError: observable.ref}
+    );
+
+    // Les validateurs asynchrones sont appelés après un délai de saisie. Seule la réponse de la dernière validation est prise en compte.
+    // La réaction est arrêtée quand le noeud est retiré (ou le FormNode désynchronisé), ce qui invalide aussi la validation en cours.
+    let validationId = 0;
+    addNodeReaction(field, () => {
+        const disposer = reaction(
+            () => {
+                const validators = (field as FormEntityField).isEdit ? getAsyncValidators(field) : [];
+                return validators.length ? {value: field.value, validators} : undefined;
+            },
+            params => {
+                const id = ++validationId;
+                (field as any)._asyncError = undefined;
+                (field as any)._isValidating = !!params;
+                if (params) {
+                    setTimeout(async () => {
+                        if (id !== validationId) {
+                            return;
+                        }
+                        let error: string | undefined;
+                        try {
+                            error = await validateFieldAsync(params.value, params.validators);
+                        } catch {
+                            error = undefined; // Une validation qui échoue ne bloque pas la saisie.
+                        }
+                        if (id === validationId) {
+                            runInAction("asyncValidation", () => {
+                                (field as any)._asyncError = error;
+                                (field as any)._isValidating = false;
+                            });
+                        }
+                    }, config.asyncValidationDelay);
+                }
+            },
+            {fireImmediately: true}
+        );
+        return () => {
+            validationId++;
+            disposer();
+        };
     });
 }
@@ -1,3 +1,3 @@
-export {nodeToFormNode, patchNodeEdit} from "./form";
-export {buildNode, makeEntityStore} from "./store";
-export {toFlatValues} from "./util";
+export {nodeToFormNode, patchNodeEdit, patchNodeValidators, resetTouched, setServerErrors} from "./form";
+export {addUnionEntries, buildComputedField, buildNode, makeEntityStore} from "./store";
+export {disposeNode, restoreNode, toFlatValues} from "./util";
@@ -1,5 +1,14 @@
-import {isArray, isObject, mapValues} from "lodash";
-import {action, extendObservable, isComputedProp, isObservableArray, observable} from "mobx";
+import {isArray, isFunction, isObject, mapValues, omitBy, pick} from "lodash";
+import {
+    action,
+    extendObservable,
+    isComputedProp,
+    isObservableArray,
+    isObservableMap,
+    observable,
+    reaction,
+    runInAction
+} from "mobx";
 
 import {
     Entity,
@@ -8,16 +17,22 @@ import {
     isAnyStoreNode,
     isEntityField,
     isFormListNode,
+    isFormMapNode,
+    isFormNode,
     isStoreListNode,
+    isStoreMapNode,
     isStoreNode,
     ListEntry,
+    MapEntry,
     NodeToType,
     ObjectEntry,
     StoreListNode,
-    StoreNode
+    StoreMapNode,
+    StoreNode,
+    UnionEntry
 } from "../types";
 import {nodeToFormNode} from "./form";
-import {toFlatValues} from "./util";
+import {addNodeReaction, disposeNode, toFlatValues} from "./util";
 
 /** Récupère les noeuds de store associés aux entités définies dans T. */
 export type ExtractEntities<T> = {
@@ -85,20 +100,52 @@ export function makeEntityStore<T extends Record<string, Entity | Entity[] | Ent
 /**
  * Construit un noeud à partir d'une entité, potentiellement de façon récursive.
  * @param entity L'entité de base (dans une liste pour un noeud liste).
+ * @param keyField Le champ identifiant les éléments d'un noeud liste.
  */
 export function buildNode<T extends Entity>(entity: T): StoreNode<T>;
-export function buildNode<T extends Entity>(entity: T[]): StoreListNode<T>;
-export function buildNode<T extends Entity>(entity: T | T[]): StoreNode<T> | StoreListNode<T> {
+export function buildNode<T extends Entity>(entity: T[], keyField?: string): StoreListNode<T>;
+export function buildNode<T extends Entity>(entity: T | T[], keyField?: string): StoreNode<T> | StoreListNode<T> {
     // Cas d'un noeud de type liste : on construit une liste observable à laquelle on greffe les métadonnées et la fonction `set`.
     if (isArray(entity)) {
         const outputEntry = observable.array([] as any[], {deep: false}) as StoreListNode<T>;
 
         (outputEntry as any).$entity = entity[0];
+        (outputEntry as any).$keyField = keyField;
+
+        outputEntry.insertNode = action("insertNode", function insertNode(
+            this: typeof outputEntry,
+            index: number,
+            item: {}
+        ) {
+            this.splice(index, 0, getNodeForList(this, item));
+        });
+
+        outputEntry.moveNode = action("moveNode", function moveNode(
+            this: typeof outputEntry,
+            from: number,
+            to: number
+        ) {
+            const [item] = this.splice(from, 1);
+            if (item) {
+                this.splice(to, 0, item);
+            }
+        });
 
         outputEntry.pushNode = action("pushNode", function pushNode(this: typeof outputEntry, ...items: {}[]) {
             this.push(...items.map(item => getNodeForList(this, item)));
         });
 
+        outputEntry.removeNode = action("removeNode", function removeNode(
+            this: typeof outputEntry,
+            item: StoreNode<T>
+        ) {
+            const removed = this.remove(item);
+            if (removed) {
+                disposeNode(item);
+            }
+            return removed;
+        });
+
         outputEntry.replaceNodes = action("replaceNodes", function replaceNodes(
             this: typeof outputEntry,
             values: {}[]
@@ -113,15 +160,25 @@ export function buildNode<T extends Entity>(entity: T | T[]): StoreNode<T> | Sto
         return outputEntry;
     }
 
-    // Cas d'un noeud simple : On parcourt tous les champs de l'entité.
-    return {
-        ...mapValues(entity.fields, (field: FieldEntry | ObjectEntry | ListEntry) => {
+    // Cas d'un noeud simple : On parcourt tous les champs de l'entité. Le noeud est créé avant ses champs pour les champs calculés.
+    const node: StoreNode<T> = {} as any;
+    const fields = omitBy(entity.fields, field => field.type === "union") as {
+        [key: string]: FieldEntry | ObjectEntry | ListEntry | MapEntry;
+    };
+    Object.assign(node, {
+        $entity: entity,
+
+        ...mapValues(fields, (field: FieldEntry | ObjectEntry | ListEntry | MapEntry) => {
             if (field.type === "list") {
-                return buildNode([field.entity]);
+                return buildNode([field.entity], field.keyField);
+            } else if (field.type === "map") {
+                return buildMapNode(field.entity);
             } else if (field.type === "object") {
                 return buildNode(field.entity);
+            } else if (field.computed) {
+                return buildComputedField(field, node);
             } else {
-                return extendObservable({$field: field}, {value: undefined}, {value: observable.ref});
+                return extendObservable({$field: field}, {value: getDefaultValue(field)}, {value: observable.ref});
             }
         }),
 
@@ -136,17 +193,103 @@ export function buildNode<T extends Entity>(entity: T | T[]): StoreNode<T> | Sto
         set: action("node.set", function set(this: StoreNode<T>, entityValue: any) {
             setNode(this, entityValue);
         })
-    } as any;
+    });
+
+    // Les entrées "union" sont vides tant que leur discriminant n'a pas de valeur.
+    addUnionEntries(node);
+
+    return node;
+}
+
+/**
+ * Construit un noeud dictionnaire à partir d'une entité.
+ * @param entity L'entité des éléments du dictionnaire.
+ */
+export function buildMapNode<T extends Entity>(entity: T): StoreMapNode<T> {
+    const outputEntry = observable.map<string, StoreNode<T>>({}, {deep: false}) as StoreMapNode<T>;
+
+    (outputEntry as any).$entity = entity;
+
+    outputEntry.replaceNodes = action("replaceNodes", function replaceNodes(this: typeof outputEntry, values: {}) {
+        replaceNode(this, values);
+    });
+
+    outputEntry.setNodes = action("setNodes", function set(this: typeof outputEntry, values: {}) {
+        setNode(this, values);
+    });
+
+    return outputEntry;
+}
+
+/**
+ * Pose les entrées "union" (observables) d'un noeud, avec leurs éventuels sous-noeuds initiaux.
+ * Le sous-noeud d'une entrée est reconstruit avec la bonne entité dès que la valeur de son champ discriminant est modifiée.
+ * @param node Le noeud.
+ * @param subNodes Les sous-noeuds initiaux, par entrée.
+ */
+export function addUnionEntries(node: StoreNode, subNodes: {[key: string]: StoreNode | undefined} = {}) {
+    for (const key in (node.$entity && node.$entity.fields) || {}) {
+        const entry = getUnionEntry(node, key);
+        if (entry) {
+            const {discriminator, entities} = entry;
+            extendObservable(node, {[key]: subNodes[key]}, {[key]: observable.ref});
+            // La réaction vit aussi longtemps que le noeud : elle est arrêtée quand il est retiré.
+            addNodeReaction(node, () =>
+                reaction(
+                    () => {
+                        const subNode = (node as any)[key];
+                        return subNode && getKey(subNode, discriminator);
+                    },
+                    value => {
+                        const subNode = (node as any)[key];
+                        if (subNode && entities[value] && entities[value] !== subNode.$entity) {
+                            runInAction("unionChange", () => setUnionNode(node, key, {[discriminator]: value}));
+                        }
+                    }
+                )
+            );
+        }
+    }
+}
+
+/**
+ * Construit un champ calculé à partir de sa définition, dont la valeur est calculée à partir du noeud donné.
+ * @param field La définition du champ.
+ * @param node Le noeud qui contient le champ.
+ */
+export function buildComputedField(field: FieldEntry, node: StoreNode) {
+    return extendObservable(
+        {$field: field},
+        {
+            get value() {
+                return field.computed!(node);
+            }
+        }
+    );
+}
+
+/**
+ * Récupère la valeur par défaut d'un champ, définie sur le champ ou à défaut sur son domaine.
+ * @param field La définition du champ.
+ */
+function getDefaultValue({defaultValue, domain}: FieldEntry) {
+    const value = defaultValue !== undefined ? defaultValue : domain.defaultValue;
+    return isFunction(value) ? value() : value;
 }
 
 /**
  * Vide un noeud de store.
  * @param entity Le noeud.
+ * @param withDefaults Remet les valeurs par défaut des champs (sinon, les champs sont vidés).
  */
-function clearNode<T extends Entity>(entity: StoreNode<T>) {
+function clearNode<T extends Entity>(entity: StoreNode<T>, withDefaults = true) {
     // Cas du noeud de liste : On vide simplement la liste.
     if (isStoreListNode(entity)) {
-        entity.replace([]);
+        entity.replace([]).forEach(disposeNode);
+    } else if (isStoreMapNode(entity)) {
+        // Cas du noeud dictionnaire : On vide simplement le dictionnaire.
+        entity.forEach(disposeNode);
+        entity.clear();
     } else {
         // Cas du noeud simple, on parcourt chaque champ.
         for (const key in entity) {
@@ -154,15 +297,18 @@ function clearNode<T extends Entity>(entity: StoreNode<T>) {
                 continue; // Pas touche.
             }
             const entryItem = (entity as any)[key];
-            if (isStoreListNode(entryItem)) {
-                // Cas noeud de liste -> on vide la liste.
-                entryItem.clear();
+            if (getUnionEntry(entity, key)) {
+                // Cas union -> on retire le sous-noeud.
+                removeUnionNode(entity, key);
+            } else if (isStoreListNode(entryItem) || isStoreMapNode(entryItem)) {
+                // Cas noeud de liste ou dictionnaire -> on le vide.
+                clearNode(entryItem as any);
             } else if (isStoreNode(entryItem)) {
                 // Cas noeud de store -> `clearEntity`.
-                clearNode(entryItem as StoreNode);
-            } else if (entryItem.value !== undefined && !isComputedProp(entryItem, "value")) {
-                // Cas primitive -> on met à `undefined`.
-                entryItem.value = undefined;
+                clearNode(entryItem as StoreNode, withDefaults);
+            } else if (isEntityField(entryItem) && !isComputedProp(entryItem, "value")) {
+                // Cas primitive -> on remet la valeur par défaut (`undefined` s'il n'y en a pas).
+                entryItem.value = withDefaults ? getDefaultValue(entryItem.$field) : undefined;
             }
         }
     }
@@ -179,12 +325,47 @@ export function replaceNode<T extends Entity>(
     value: EntityToType<T>[] | StoreListNode<T>
 ): StoreListNode<T>;
 export function replaceNode<T extends Entity>(
-    node: StoreNode<T> | StoreListNode<T>,
-    value: EntityToType<T> | EntityToType<T>[] | StoreNode<T> | StoreListNode<T>
-): StoreNode<T> | StoreListNode<T> {
+    node: StoreMapNode<T>,
+    value: {[key: string]: EntityToType<T>} | StoreMapNode<T>
+): StoreMapNode<T>;
+export function replaceNode<T extends Entity>(
+    node: StoreNode<T> | StoreListNode<T> | StoreMapNode<T>,
+    value: {} | StoreNode<T> | StoreListNode<T> | StoreMapNode<T>
+): StoreNode<T> | StoreListNode<T> | StoreMapNode<T> {
     if (isStoreListNode<T>(node) && (isArray(value) || isObservableArray(value))) {
-        // On remplace la liste existante par une nouvelle liste de noeuds construit à partir de `value`.
-        node.replace((value as (EntityToType<T> | StoreNode<T>)[]).map(item => getNodeForList(node, item)));
+        if (node.$keyField) {
+            // On réutilise les noeuds existants ayant la même clé, en les remplaçant.
+            reconcileList(node, value as (EntityToType<T> | StoreNode<T>)[], "replace");
+        } else {
+            // On remplace la liste existante par une nouvelle liste de noeuds construit à partir de `value`.
+            node.replace(
+                (value as (EntityToType<T> | StoreNode<T>)[]).map(item => getNodeForList(node, item, "replace"))
+            ).forEach(disposeNode);
+        }
+    } else if (isStoreMapNode<T>(node) && isObject(value)) {
+        // On retire les éléments absents de `value`, et on remplace (ou on crée) les autres.
+        const items = getMapItems<T>(value);
+        Object.keys(node.toPOJO())
+            .filter(key => !(key in items))
+            .forEach(key => {
+                disposeNode(node.get(key)!);
+                node.delete(key);
+            });
+        for (const key in items) {
+            const item = node.get(key);
+            if (
+                item &&
+                // Dans un FormMapNode, on ne réutilise un élément que s'il a le même noeud source.
+                (!isFormMapNode(node) || !isStoreNode(items[key]) || (item as any).sourceNode === items[key])
+            ) {
+                replaceNode(item, items[key]);
+            } else {
+                node.set(key, getNodeForList(node, items[key], "replace"));
+                if (item) {
+                    disposeNode(item);
+                }
+            }
+        }
     } else if (isStoreNode(node) && isObject(value)) {
         // On affecte chaque valeur du noeud avec la valeur demandée, et on réappelle `replaceNode` si la valeur n'est pas primitive.
         for (const entry in node) {
@@ -192,10 +373,13 @@ export function replaceNode<T extends Entity>(
             const valueEntry = (value as any)[entry];
             if (entry === "sourceNode") {
                 // Pas touche
+            } else if (getUnionEntry(node, entry)) {
+                // Union -> on remplace le sous-noeud, en le reconstruisant si l'entité sélectionnée par le discriminant change.
+                replaceUnionNode(node, entry, valueEntry);
             } else if (isAnyStoreNode(item)) {
-                // Noeud -> on réappelle `replaceNode` ou on vide.
+                // Noeud -> on réappelle `replaceNode` ou on vide (sans valeurs par défaut).
                 if (!valueEntry) {
-                    clearNode(item as StoreNode);
+                    clearNode(item as StoreNode, false);
                 } else {
                     replaceNode(item as any, valueEntry);
                 }
@@ -223,27 +407,51 @@ export function setNode<T extends Entity>(
     value: EntityToType<T>[] | StoreListNode<T>
 ): StoreListNode<T>;
 export function setNode<T extends Entity>(
-    node: StoreNode<T> | StoreListNode<T>,
-    value: EntityToType<T> | EntityToType<T>[] | StoreNode<T> | StoreListNode<T>
-): StoreNode<T> | StoreListNode<T> {
+    node: StoreMapNode<T>,
+    value: {[key: string]: EntityToType<T>} | StoreMapNode<T>
+): StoreMapNode<T>;
+export function setNode<T extends Entity>(
+    node: StoreNode<T> | StoreListNode<T> | StoreMapNode<T>,
+    value: {} | StoreNode<T> | StoreListNode<T> | StoreMapNode<T>
+): StoreNode<T> | StoreListNode<T> | StoreMapNode<T> {
     if (isStoreListNode<T>(node) && (isArray(value) || isObservableArray(value))) {
-        // On va appeler récursivement `setNode` sur tous les éléments de la liste.
-        (value as {}[]).forEach((item, i) => {
-            if (i >= node.length) {
-                node.pushNode(item);
+        if (node.$keyField) {
+            // On réutilise les noeuds existants ayant la même clé, en les mettant à jour.
+            reconcileList(node, value as (EntityToType<T> | StoreNode<T>)[], "set");
+        } else {
+            // On va appeler récursivement `setNode` sur tous les éléments de la liste.
+            (value as {}[]).forEach((item, i) => {
+                if (i >= node.length) {
+                    node.pushNode(item);
+                }
+                setNode(node[i], item);
+            });
+        }
+    } else if (isStoreMapNode<T>(node) && isObject(value)) {
+        // On met à jour (ou on crée) les éléments donnés, sans toucher aux autres.
+        const items = getMapItems<T>(value);
+        for (const key in items) {
+            const item = node.get(key);
+            if (item) {
+                setNode(item, items[key]);
+            } else {
+                node.set(key, getNodeForList(node, items[key]));
             }
-            setNode(node[i], item);
-        });
+        }
     } else if (isStoreNode(node) && isObject(value)) {
         // On affecte chaque valeur du noeud avec la valeur demandée (si elle existe), et on réappelle `setNode` si la valeur n'est pas primitive.
         for (const item in value) {
             const itemEntry = (node as any)[item];
             const itemValue = (value as any)[item];
-            if (!itemEntry) {
+            if (getUnionEntry(node, item)) {
+                // Union -> on met à jour le sous-noeud, en le reconstruisant si l'entité sélectionnée par le discriminant change.
+                setUnionNode(node, item, itemValue);
+            } else if (!itemEntry) {
                 throw new Error(`node.set : propriété "${item}" introuvable.`);
-            }
-            if (isAnyStoreNode(itemEntry)) {
+            } else if (isAnyStoreNode(itemEntry)) {
                 setNode(itemEntry as StoreNode, itemValue);
+            } else if (isComputedProp(itemEntry, "value")) {
+                // Champ calculé -> on ignore la valeur.
             } else if (isEntityField(itemValue)) {
                 itemEntry.value = itemValue.value;
             } else {
@@ -256,22 +464,183 @@ export function setNode<T extends Entity>(
 }
 
 /**
- * Crée un noeud à ajouter dans un noeud de liste à partir de l'objet à ajouter.
- * @param list Le noeud de liste.
+ * Reconstruit un noeud de liste à partir des valeurs fournies, en réutilisant (et déplaçant) les noeuds existants dont la clé
+ * correspond à celle d'une valeur. Les noeuds sans valeur correspondante sont retirés et ceux qui manquent sont créés.
+ * @param list Le noeud de liste, avec un `$keyField`.
+ * @param values Les valeurs de la liste.
+ * @param mode La mise à jour des noeuds avec leur valeur (`replaceNode` ou `setNode`).
+ */
+function reconcileList<T extends Entity>(
+    list: StoreListNode<T>,
+    values: (EntityToType<T> | StoreNode<T>)[],
+    mode: "replace" | "set"
+) {
+    const keyField = list.$keyField!;
+    const available = list.slice();
+    list.replace(
+        values.map(value => {
+            const key = getKey(value, keyField);
+            const index =
+                key === undefined
+                    ? -1
+                    : available.findIndex(
+                          item =>
+                              getKey(item, keyField) === key &&
+                              // Dans un FormListNode, on ne réutilise un élément que s'il a le même noeud source.
+                              (!isFormListNode(list) || !isStoreNode(value) || (item as any).sourceNode === value)
+                      );
+            if (index === -1) {
+                return getNodeForList(list, value, mode);
+            }
+            const [node] = available.splice(index, 1);
+            if (mode === "replace") {
+                replaceNode(node, value);
+            } else {
+                setNode(node, value);
+            }
+            return node;
+        })
+    );
+
+    // Les noeuds qui n'ont pas été réutilisés sont retirés.
+    available.forEach(disposeNode);
+}
+
+/**
+ * Remplace le sous-noeud d'une entrée "union" par la valeur fournie. Le sous-noeud est reconstruit si l'entité sélectionnée par le
+ * discriminant de la valeur change, et retiré si elle n'en sélectionne aucune.
+ * @param node Le noeud parent.
+ * @param key Le nom de l'entrée.
+ * @param value La valeur du sous-noeud.
+ */
+function replaceUnionNode(node: StoreNode, key: string, value: any) {
+    const {discriminator, entities} = getUnionEntry(node, key)!;
+    const entity = value ? entities[getKey(value, discriminator)] : undefined;
+    const subNode = (node as any)[key];
+    if (!entity) {
+        removeUnionNode(node, key);
+    } else if (
+        subNode &&
+        subNode.$entity === entity &&
+        // Dans un FormNode, on ne réutilise le sous-noeud que s'il a le même noeud source.
+        (!isFormNode(subNode) || !isStoreNode(value) || subNode.sourceNode === value)
+    ) {
+        replaceNode(subNode, value);
+    } else {
+        replaceNode(rebuildUnionNode(node, key, entity, value), value);
+    }
+}
+
+/**
+ * Met à jour le sous-noeud d'une entrée "union" avec la valeur fournie. Si le discriminant de la valeur sélectionne une autre entité,
+ * le sous-noeud est reconstruit en conservant les valeurs des champs communs aux deux entités.
+ * @param node Le noeud parent.
+ * @param key Le nom de l'entrée.
+ * @param value La valeur (partielle) du sous-noeud.
+ */
+function setUnionNode(node: StoreNode, key: string, value: any) {
+    const {discriminator, entities} = getUnionEntry(node, key)!;
+    const discriminatorValue = value ? getKey(value, discriminator) : undefined;
+    const entity = discriminatorValue === undefined ? undefined : entities[discriminatorValue];
+    const subNode: StoreNode | undefined = (node as any)[key];
+    if (discriminatorValue === undefined || (subNode && subNode.$entity === entity)) {
+        if (subNode) {
+            setNode(subNode, value);
+        }
+    } else if (!entity) {
+        removeUnionNode(node, key);
+    } else {
+        const newNode = rebuildUnionNode(node, key, entity);
+        if (subNode) {
+            const sharedFields = Object.keys(entity.fields).filter(field => entity.fields[field].type === "field");
+            setNode(newNode, pick(toFlatValues(subNode), sharedFields));
+        }
+        setNode(newNode, value);
+    }
+}
+
+/**
+ * Reconstruit le sous-noeud d'une entrée "union" avec l'entité donnée.
+ * @param node Le noeud parent.
+ * @param key Le nom de l'entrée.
+ * @param entity L'entité du sous-noeud.
+ * @param source Le noeud source du sous-noeud, dans un FormNode. Par défaut : celui du noeud source du parent, s'il a la même entité.
+ */
+function rebuildUnionNode(node: StoreNode, key: string, entity: Entity, source?: {}) {
+    const subNode = buildNode(entity);
+    if (isFormNode(node)) {
+        const sourceNode = isStoreNode(source) ? source : node.sourceNode && (node.sourceNode as any)[key];
+        nodeToFormNode(subNode, isStoreNode(sourceNode) && sourceNode.$entity === entity ? sourceNode : subNode, node);
+    }
+    removeUnionNode(node, key);
+    (node as any)[key] = subNode;
+    return subNode;
+}
+
+/**
+ * Retire le sous-noeud d'une entrée "union".
+ * @param node Le noeud parent.
+ * @param key Le nom de l'entrée.
+ */
+function removeUnionNode(node: StoreNode, key: string) {
+    const subNode = (node as any)[key];
+    if (subNode) {
+        (node as any)[key] = undefined;
+        disposeNode(subNode);
+    }
+}
+
+/**
+ * Récupère les métadonnées d'une entrée de noeud si elle est de type "union".
+ * @param node Le noeud.
+ * @param key Le nom de l'entrée.
+ */
+function getUnionEntry(node: StoreNode, key: string) {
+    const entry = node.$entity && node.$entity.fields[key];
+    return entry && entry.type === "union" ? (entry as UnionEntry) : undefined;
+}
+
+/**
+ * Récupère la clé d'un élément de liste (noeud ou objet).
+ * @param item L'élément.
+ * @param keyField Le champ clé.
+ */
+function getKey(item: {}, keyField: string) {
+    const key = (item as any)[keyField];
+    return isEntityField(key) ? key.value : key;
+}
+
+/**
+ * Récupère les éléments d'un dictionnaire (noeud ou objet), par clé.
+ * @param value Le dictionnaire.
+ */
+function getMapItems<T extends Entity>(value: {}): {[key: string]: EntityToType<T> | StoreNode<T>} {
+    return isObservableMap(value) ? value.toPOJO() : value;
+}
+
+/**
+ * Crée un noeud à ajouter dans un noeud de liste (ou dictionnaire) à partir de l'objet à ajouter.
+ * @param list Le noeud de liste (ou dictionnaire).
  * @param item L'item à ajouter (classique ou noeud).
+ * @param mode "replace" pour ne garder que les valeurs de l'item (sans valeurs par défaut, comme `replace`), "set" sinon.
  */
-function getNodeForList<T extends Entity>(list: StoreListNode<T>, item: EntityToType<T> | StoreNode<T>) {
+function getNodeForList<T extends Entity>(
+    list: StoreListNode<T> | StoreMapNode<T>,
+    item: EntityToType<T> | StoreNode<T>,
+    mode: "replace" | "set" = "set"
+) {
     const node = buildNode<T>(list.$entity);
-    if (list.$transform) {
+    if (isStoreListNode<T>(list) && list.$transform) {
         Object.assign(node, list.$transform(node) || {});
     }
-    if (isFormListNode(list)) {
+    if (isFormListNode(list) || isFormMapNode(list)) {
         nodeToFormNode<T>(node, isStoreNode<T>(item) ? item : node, list);
     }
-    if (isStoreNode<T>(item)) {
-        node.set(toFlatValues(item));
+    const values = isStoreNode<T>(item) ? toFlatValues(item) : item;
+    if (mode === "replace") {
+        replaceNode(node, values);
     } else {
-        node.set(item);
+        node.set(values);
     }
 
     return node;
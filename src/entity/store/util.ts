@@ -1,7 +1,7 @@
 import {isUndefined, mapValues, omitBy} from "lodash";
-import {isComputedProp} from "mobx";
+import {isComputedProp, Lambda} from "mobx";
 
-import {isEntityField, isStoreListNode, isStoreNode, NodeToType} from "../types";
+import {isEntityField, isStoreListNode, isStoreMapNode, isStoreNode, NodeToType} from "../types";
 
 /**
  * Met à plat un noeud de store pour récupèrer sa valeur "brute".
@@ -11,6 +11,9 @@ export function toFlatValues<T extends object>(storeNode: T): NodeToType<T> {
     // Cas entrée liste : on appelle `toFlatValues` sur chaque élément.
     if (isStoreListNode(storeNode)) {
         return storeNode.map(toFlatValues) as any;
+    } else if (isStoreMapNode(storeNode)) {
+        // Cas entrée dictionnaire : on appelle `toFlatValues` sur chaque élément.
+        return mapValues(storeNode.toPOJO(), toFlatValues) as any;
     } else {
         // Cas entrée simple : on parcourt chaque champ et on enlève les valeurs `undefined`.
         return omitBy(
@@ -21,6 +24,9 @@ export function toFlatValues<T extends object>(storeNode: T): NodeToType<T> {
                 } else if (isStoreListNode(item)) {
                     // Cas entrée liste -> `toFlatValues` sur chaque élément.
                     return item.map(toFlatValues);
+                } else if (isStoreMapNode(item)) {
+                    // Cas entrée dictionnaire -> `toFlatValues` sur chaque élément.
+                    return mapValues(item.toPOJO(), toFlatValues);
                 } else if (isStoreNode(item)) {
                     // Cas entrée simple -> `toFlatValues`.
                     return toFlatValues(item);
@@ -35,3 +41,71 @@ export function toFlatValues<T extends object>(storeNode: T): NodeToType<T> {
         ) as any;
     }
 }
+
+/** Réactions posées sur les noeuds (et leurs champs), avec de quoi les relancer. */
+const nodeReactions = new WeakMap<{}, {start: () => Lambda; disposer?: Lambda}[]>();
+
+/**
+ * Lance une réaction liée à la vie d'un noeud (ou d'un champ) : elle est arrêtée quand le noeud est retiré (`disposeNode`), et relancée
+ * s'il est réinséré (`restoreNode`).
+ * @param node Le noeud (ou le champ).
+ * @param start Lance la réaction et renvoie son disposer.
+ */
+export function addNodeReaction(node: {}, start: () => Lambda) {
+    const reactions = nodeReactions.get(node) || [];
+    reactions.push({start, disposer: start()});
+    nodeReactions.set(node, reactions);
+}
+
+/**
+ * Arrête les réactions d'un noeud retiré, de ses champs et de ses sous-noeuds.
+ * @param node Le noeud.
+ */
+export function disposeNode(node: {}) {
+    forEachReactionTarget(node, item =>
+        (nodeReactions.get(item) || []).forEach(reaction => {
+            if (reaction.disposer) {
+                reaction.disposer();
+                reaction.disposer = undefined;
+            }
+        })
+    );
+}
+
+/**
+ * Relance les réactions d'un noeud réinséré (par l'historique par exemple), de ses champs et de ses sous-noeuds.
+ * @param node Le noeud.
+ */
+export function restoreNode(node: {}) {
+    forEachReactionTarget(node, item =>
+        (nodeReactions.get(item) || []).forEach(reaction => {
+            if (!reaction.disposer) {
+                reaction.disposer = reaction.start();
+            }
+        })
+    );
+}
+
+/**
+ * Parcourt récursivement un noeud, ses champs et ses sous-noeuds (sans passer par le noeud source d'un FormNode).
+ * @param node Le noeud.
+ * @param callback La fonction à appeler sur chaque élément.
+ */
+function forEachReactionTarget(node: {}, callback: (item: {}) => void) {
+    callback(node);
+    if (isStoreListNode(node)) {
+        node.forEach(item => forEachReactionTarget(item, callback));
+    } else if (isStoreMapNode(node)) {
+        node.forEach(item => forEachReactionTarget(item, callback));
+    } else if (isStoreNode(node)) {
+        for (const key in node) {
+            const item = (node as any)[key];
+            if (
+                key !== "sourceNode" &&
+                (isStoreListNode(item) || isStoreMapNode(item) || isStoreNode(item) || isEntityField(item))
+            ) {
+                forEachReactionTarget(item, callback);
+            }
+        }
+    }
+}
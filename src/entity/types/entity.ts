@@ -8,7 +8,7 @@ import {
     BaseSelectProps,
     FieldComponents
 } from "./components";
-import {Validator} from "./validation";
+import {NodeValidator, Validator} from "./validation";
 
 /** Définition d'un domaine. */
 export interface Domain<
@@ -20,6 +20,8 @@ export interface Domain<
 > extends FieldComponents<ICProps, SCProps, ACProps, DCProps, LCProps> {
     /** Classe CSS pour le champ. */
     className?: string;
+    /** Valeur par défaut des champs du domaine (ou fonction qui la construit), si le champ n'en définit pas. */
+    defaultValue?: any;
     /** Formatteur pour l'affichage du champ en consulation. */
     displayFormatter?: (value: any) => string;
     /** Formatteur pour l'affichage du champ en édition. */
@@ -47,7 +49,10 @@ export interface Entity {
     readonly name: string;
 
     /** Liste des champs de l'entité. */
-    readonly fields: {[key: string]: FieldEntry | ObjectEntry | ListEntry};
+    readonly fields: {[key: string]: FieldEntry | ObjectEntry | ListEntry | MapEntry | UnionEntry};
+
+    /** Validateurs de noeud, pour valider plusieurs champs de l'entité entre eux. */
+    readonly validators?: NodeValidator[];
 }
 
 /** Métadonnées d'une entrée de type "field" pour une entité. */
@@ -67,8 +72,14 @@ export interface FieldEntry<
     /** Domaine du champ. */
     readonly domain: Domain<ICProps, SCProps, ACProps, DCProps, LCProps>;
 
-    /** Champ obligatoire. */
-    readonly isRequired: boolean;
+    /** Champ obligatoire (une liste vide est considérée comme non renseignée). Peut dépendre du noeud qui contient le champ. */
+    readonly isRequired: boolean | ((node: any) => boolean);
+
+    /** La valeur du champ est une liste de valeurs primitives (`fieldType` est alors un array) : les validateurs du domaine s'appliquent à chaque élément. */
+    readonly isList?: boolean;
+
+    /** Champ en lecture seule (jamais en édition). Peut dépendre du noeud qui contient le champ. */
+    readonly isReadonly?: boolean | ((node: any) => boolean);
 
     /** Nom de l'entrée. */
     readonly name: string;
@@ -78,6 +89,12 @@ export interface FieldEntry<
 
     /** Commentaire de l'entrée */
     readonly comment?: React.ReactNode;
+
+    /** Valeur par défaut du champ (ou fonction qui la construit), pour un nouvel objet. Par défaut : celle du domaine. */
+    readonly defaultValue?: T | (() => T);
+
+    /** Calcul de la valeur du champ à partir du noeud qui le contient. Un champ calculé n'est jamais modifiable ni enregistré. */
+    readonly computed?: (node: any) => T | undefined;
 }
 
 /** Métadonnées d'une entrée de type "object" pour une entité. */
@@ -94,6 +111,31 @@ export interface ListEntry<T extends Entity = any> {
 
     /** Entité de l'entrée */
     readonly entity: T;
+
+    /** Champ identifiant les éléments de la liste, pour les retrouver lors d'un `replaceNodes` ou d'un `setNodes`. */
+    readonly keyField?: string;
+}
+
+/** Métadonnées d'une entrée de type "map" pour une entité : un dictionnaire d'objets de la même entité, indexés par une clé. */
+export interface MapEntry<T extends Entity = any> {
+    readonly type: "map";
+
+    /** Entité des éléments de l'entrée */
+    readonly entity: T;
+}
+
+/**
+ * Métadonnées d'une entrée de type "union" pour une entité : un objet dont l'entité dépend de la valeur de son champ discriminant.
+ * Chaque entité possible doit contenir le champ discriminant.
+ */
+export interface UnionEntry<T extends {[value: string]: Entity} = any> {
+    readonly type: "union";
+
+    /** Nom du champ discriminant. */
+    readonly discriminator: string;
+
+    /** Entités de l'entrée, par valeur du champ discriminant. */
+    readonly entities: T;
 }
 
 /** Génère le type associé à une entité, avec toutes ses propriétés en optionnel. */
@@ -102,7 +144,11 @@ export type EntityToType<T extends Entity> = {
         ? T["fields"][P]["fieldType"]
         : T["fields"][P] extends ObjectEntry<infer U>
             ? EntityToType<U>
-            : T["fields"][P] extends ListEntry<infer V> ? EntityToType<V>[] : never
+            : T["fields"][P] extends ListEntry<infer V>
+                ? EntityToType<V>[]
+                : T["fields"][P] extends MapEntry<infer X>
+                    ? {[key: string]: EntityToType<X>}
+                    : T["fields"][P] extends UnionEntry<infer W> ? {[K in keyof W]: EntityToType<W[K]>}[keyof W] : never
 };
 
 /** Définition de champ dans un store. */
@@ -1,7 +1,7 @@
-import {IObservableArray} from "mobx";
+import {IObservableArray, ObservableMap} from "mobx";
 
 import {Entity, EntityField, EntityToType, FieldEntry} from "./entity";
-import {NodeToType, StoreListNode, StoreNode} from "./store";
+import {NodeToType, StoreListNode, StoreMapNode, StoreNode} from "./store";
 
 /** Transforme les nodes et fields d'un noeud en leur équivalent dans un formulaire. */
 export type NodeToForm<T extends Entity, U = {}> = {
@@ -9,7 +9,9 @@ export type NodeToForm<T extends Entity, U = {}> = {
         ? FormNode<V>
         : (StoreNode<T> & U)[P] extends StoreListNode<infer W, infer X>
             ? FormListNode<W, X>
-            : (StoreNode<T> & U)[P] extends EntityField<infer F> ? FormEntityField<F> : (StoreNode<T> & U)[P]
+            : (StoreNode<T> & U)[P] extends StoreMapNode<infer Y>
+                ? FormMapNode<Y>
+                : (StoreNode<T> & U)[P] extends EntityField<infer F> ? FormEntityField<F> : (StoreNode<T> & U)[P]
 };
 
 type Omit<T, K> = Pick<T, Exclude<keyof T, K>>;
@@ -21,15 +23,63 @@ export type NodeToErrors<T extends Entity, U = {}> = Omit<
             ? NodeToErrors<V>
             : (StoreNode<T> & U)[P] extends StoreListNode<infer W, infer X>
                 ? NodeToErrors<W, X>[]
-                : (StoreNode<T> & U)[P] extends EntityField ? string : never
+                : (StoreNode<T> & U)[P] extends StoreMapNode<infer Y>
+                    ? {[key: string]: NodeToErrors<Y>}
+                    : (StoreNode<T> & U)[P] extends EntityField ? string : never
     },
     {
-        [P in keyof (StoreNode<T> & U)]: (StoreNode<T> & U)[P] extends StoreNode | StoreListNode | EntityField
+        [P in keyof (StoreNode<T> & U)]: (StoreNode<T> & U)[P] extends
+            | StoreNode
+            | StoreListNode
+            | StoreMapNode
+            | EntityField
             ? never
             : P
     }[keyof (StoreNode<T> & U)]
 >;
 
+/** Récupère le type décrivant les modifications d'un noeud de formulaire par rapport à son noeud source. */
+export type NodeToChanges<T extends Entity, U = {}> = Omit<
+    {
+        readonly [P in keyof (StoreNode<T> & U)]?: (StoreNode<T> & U)[P] extends StoreNode<infer V>
+            ? NodeToChanges<V>
+            : (StoreNode<T> & U)[P] extends StoreListNode<infer W, infer X>
+                ? ListChanges<W, X>
+                : (StoreNode<T> & U)[P] extends StoreMapNode<infer Y>
+                    ? MapChanges<Y>
+                    : (StoreNode<T> & U)[P] extends EntityField<infer F> ? F["fieldType"] : never
+    },
+    {
+        [P in keyof (StoreNode<T> & U)]: (StoreNode<T> & U)[P] extends
+            | StoreNode
+            | StoreListNode
+            | StoreMapNode
+            | EntityField
+            ? never
+            : P
+    }[keyof (StoreNode<T> & U)]
+>;
+
+/** Modifications d'un noeud de formulaire liste par rapport à son noeud source. */
+export interface ListChanges<T extends Entity = any, U = {}> {
+    /** Eléments ajoutés dans la liste. */
+    readonly added: EntityToType<T>[];
+    /** Eléments modifiés, avec leur index dans la liste, leurs modifications et leur valeur complète. */
+    readonly modified: {index: number; changes: NodeToChanges<T, U>; value: EntityToType<T>}[];
+    /** Eléments du noeud source retirés de la liste. */
+    readonly removed: EntityToType<T>[];
+}
+
+/** Modifications d'un noeud dictionnaire par rapport à son noeud source, par clé. */
+export interface MapChanges<T extends Entity = any> {
+    /** Eléments ajoutés dans le dictionnaire. */
+    readonly added: {[key: string]: EntityToType<T>};
+    /** Eléments modifiés, avec leurs modifications et leur valeur complète. */
+    readonly modified: {[key: string]: {changes: NodeToChanges<T>; value: EntityToType<T>}};
+    /** Eléments du noeud source retirés du dictionnaire. */
+    readonly removed: {[key: string]: EntityToType<T>};
+}
+
 /** Champs additionnels pour un noeud de formulaire. */
 export type FormNode<T extends Entity = any, U = {}> = NodeToForm<T, U> & {
     /** Données liée à un FormNode. */
@@ -37,13 +87,28 @@ export type FormNode<T extends Entity = any, U = {}> = NodeToForm<T, U> & {
         /** Précise si le formulaire associé est en édition ou non. */
         isEdit: boolean;
 
+        /** Précise si le noeud a été modifié par rapport à son noeud source. */
+        readonly isDirty: boolean;
+
         /** Précise si le noeud est valide (FormNode uniquement). */
         readonly isValid: boolean;
 
+        /** Précise si une validation asynchrone est en cours sur un des champs du noeud. */
+        readonly isValidating: boolean;
+
         /** Les erreurs des champs du noeud. */
         readonly errors: NodeToErrors<T, U>;
+
+        /** Précise si un des champs du noeud a un avertissement. */
+        readonly hasWarnings: boolean;
+
+        /** Les avertissements (non bloquants) des champs du noeud. */
+        readonly warnings: NodeToErrors<T, U>;
     };
 
+    /** Récupère les modifications du noeud par rapport à son noeud source. */
+    getChanges(): NodeToChanges<T, U>;
+
     /** Remplace le contenu du noeud par le contenu donné. */
     replace(data: EntityToType<T>): void;
 
@@ -63,19 +128,46 @@ export interface FormListNode<T extends Entity = any, U = {}> extends IObservabl
         /** Précise si le formulaire associé est en édition ou non. */
         isEdit: boolean;
 
+        /** Précise si la liste a été modifiée par rapport à son noeud source (ajouts, suppressions ou modifications). */
+        readonly isDirty: boolean;
+
         /** Précise si le noeud est valide (FormNode uniquement). */
         readonly isValid: boolean;
 
+        /** Précise si une validation asynchrone est en cours sur un des champs de la liste. */
+        readonly isValidating: boolean;
+
+        /** Les modifications de la liste par rapport à son noeud source (observable). */
+        readonly changes: ListChanges<T, U>;
+
         /** Les erreurs des champs du noeud. */
         readonly errors: NodeToErrors<T, U>[];
+
+        /** Précise si un des champs de la liste a un avertissement. */
+        readonly hasWarnings: boolean;
+
+        /** Les avertissements (non bloquants) des champs du noeud. */
+        readonly warnings: NodeToErrors<T, U>[];
     };
 
     /** Fonction de transformation du noeud de la liste. */
     $transform?: (source: StoreNode<T>) => U | void;
 
+    /** Récupère les modifications de la liste par rapport à son noeud source. */
+    getChanges(): ListChanges<T, U>;
+
+    /** Insère un élément dans la liste à l'index donné. */
+    insertNode(index: number, item: EntityToType<T>): void;
+
+    /** Déplace un élément de la liste. */
+    moveNode(from: number, to: number): void;
+
     /** Ajoute un élément à la liste. */
     pushNode(...items: EntityToType<T>[]): void;
 
+    /** Retire un élément de la liste. */
+    removeNode(node: FormNode<T, U>): boolean;
+
     /** Reconstruit le noeud de liste à partir de la liste fournie. */
     replaceNodes(data: (EntityToType<T> & NodeToType<U>)[]): void;
 
@@ -89,6 +181,76 @@ export interface FormListNode<T extends Entity = any, U = {}> extends IObservabl
     readonly sourceNode: StoreListNode<T>;
 }
 
+export interface FormMapNode<T extends Entity = any> extends ObservableMap<string, FormNode<T>> {
+    /** Métadonnées. */
+    readonly $entity: T;
+
+    /** Données liée à un FormNode. */
+    readonly form: {
+        /** Précise si le formulaire associé est en édition ou non. */
+        isEdit: boolean;
+
+        /** Précise si le dictionnaire a été modifié par rapport à son noeud source (ajouts, suppressions ou modifications). */
+        readonly isDirty: boolean;
+
+        /** Précise si le noeud est valide. */
+        readonly isValid: boolean;
+
+        /** Précise si une validation asynchrone est en cours sur un des champs du dictionnaire. */
+        readonly isValidating: boolean;
+
+        /** Les modifications du dictionnaire par rapport à son noeud source. */
+        readonly changes: MapChanges<T>;
+
+        /** Les erreurs des champs du noeud, par clé. */
+        readonly errors: {[key: string]: NodeToErrors<T>};
+
+        /** Précise si un des champs du dictionnaire a un avertissement. */
+        readonly hasWarnings: boolean;
+
+        /** Les avertissements (non bloquants) des champs du noeud, par clé. */
+        readonly warnings: {[key: string]: NodeToErrors<T>};
+    };
+
+    /** Récupère les modifications du dictionnaire par rapport à son noeud source. */
+    getChanges(): MapChanges<T>;
+
+    /** Reconstruit le noeud dictionnaire à partir de l'objet fourni. */
+    replaceNodes(data: {[key: string]: EntityToType<T>}): void;
+
+    /** Réinitialise le FormNode à partir du StoreNode. */
+    reset(): void;
+
+    /** Met à jour le noeud dictionnaire à partir de l'objet fourni. */
+    setNodes(data: {[key: string]: EntityToType<T>}): void;
+
+    /** StoreNode original. */
+    readonly sourceNode: StoreMapNode<T>;
+}
+
+/** Historique des modifications d'un FormNode (voir l'option `history` de `makeFormNode`). */
+export interface FormNodeHistory {
+    /** Précise s'il y a une modification à annuler. */
+    readonly canUndo: boolean;
+
+    /** Précise s'il y a une modification annulée à rétablir. */
+    readonly canRedo: boolean;
+
+    /** Rétablit la dernière modification annulée. */
+    redo(): void;
+
+    /** Annule la dernière modification. */
+    undo(): void;
+}
+
+/**
+ * Moment à partir duquel les erreurs de validation d'un champ sont affichées :
+ * - "change" : dès la première saisie.
+ * - "blur" : dès que l'utilisateur a quitté le champ.
+ * - "submit" : uniquement après une tentative de sauvegarde.
+ */
+export type ValidationMode = "blur" | "change" | "submit";
+
 /** Définition de champ dans un FormNode. */
 export interface FormEntityField<F extends FieldEntry = FieldEntry> extends EntityField<F> {
     /** Erreur de validation du champ (FormNode uniquement). */
@@ -97,6 +259,27 @@ export interface FormEntityField<F extends FieldEntry = FieldEntry> extends Enti
     /** Précise si le champ associé est en édition ou non. */
     isEdit: boolean;
 
+    /** Précise si la valeur du champ est différente de celle du champ source. */
+    readonly isDirty: boolean;
+
+    /** Précise si le champ est en lecture seule, d'après la règle `isReadonly` de ses métadonnées. */
+    readonly isReadonly: boolean;
+
+    /** Précise si le champ est obligatoire, d'après la règle `isRequired` de ses métadonnées. */
+    readonly isRequired: boolean;
+
     /** Précise si le champ associé est valide (pas d'erreur ou pas en édition). */
     readonly isValid: boolean;
+
+    /** Précise si une validation asynchrone du champ est en cours. */
+    readonly isValidating: boolean;
+
+    /** Précise si l'utilisateur a déjà quitté (ou modifié, selon le mode de validation) le champ depuis la dernière réinitialisation. */
+    touched: boolean;
+
+    /** Avertissement (non bloquant) du champ, s'il est en édition et sans erreur. */
+    readonly warning: string | undefined;
+
+    /** Erreur renvoyée par le serveur lors de la dernière sauvegarde, tant que la valeur du champ n'a pas changé. */
+    readonly serverError: string | undefined;
 }
@@ -9,25 +9,55 @@ export {
     BaseSelectProps,
     FieldComponents
 } from "./components";
-export {Domain, Entity, EntityField, EntityToType, FieldEntry, ListEntry, ObjectEntry} from "./entity";
-export {FormEntityField, FormListNode, FormNode} from "./form";
-export {NodeToType, StoreListNode, StoreNode} from "./store";
+export {
+    Domain,
+    Entity,
+    EntityField,
+    EntityToType,
+    FieldEntry,
+    ListEntry,
+    MapEntry,
+    ObjectEntry,
+    UnionEntry
+} from "./entity";
+export {
+    FormEntityField,
+    FormListNode,
+    FormMapNode,
+    FormNode,
+    FormNodeHistory,
+    ListChanges,
+    MapChanges,
+    NodeToChanges,
+    ValidationMode
+} from "./form";
+export {NodeToType, StoreListNode, StoreMapNode, StoreNode} from "./store";
 export {
     isEntityField,
     isAnyFormNode,
     isFormListNode,
+    isFormMapNode,
     isFormNode,
     isRegex,
     isAnyStoreNode,
     isStoreListNode,
+    isStoreMapNode,
     isStoreNode
 } from "./utils";
 export {
+    AsyncValidator,
+    BicValidator,
     DateValidator,
     EmailValidator,
     FunctionValidator,
+    IbanValidator,
+    NodeValidator,
     NumberValidator,
+    PhoneValidator,
+    PostalCodeValidator,
     RegexValidator,
+    SirenValidator,
+    SiretValidator,
     StringValidator,
     Validator
 } from "./validation";
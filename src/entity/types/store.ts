@@ -1,5 +1,6 @@
-import {IObservableArray} from "mobx";
-import {Entity, EntityField, EntityToType, FieldEntry, ListEntry, ObjectEntry} from "./entity";
+import {IObservableArray, ObservableMap} from "mobx";
+import {Entity, EntityField, EntityToType, FieldEntry, ListEntry, MapEntry, ObjectEntry, UnionEntry} from "./entity";
+import {NodeValidator} from "./validation";
 
 /** Génère les entrées de noeud de store équivalent à une entité. */
 export type EntityToNode<T extends Entity> = {
@@ -7,21 +8,29 @@ export type EntityToNode<T extends Entity> = {
         ? EntityField<T["fields"][P]>
         : T["fields"][P] extends ObjectEntry<infer U>
             ? StoreNode<U>
-            : T["fields"][P] extends ListEntry<infer V> ? StoreListNode<V> : never
+            : T["fields"][P] extends ListEntry<infer V>
+                ? StoreListNode<V>
+                : T["fields"][P] extends MapEntry<infer X>
+                    ? StoreMapNode<X>
+                    : T["fields"][P] extends UnionEntry<infer W>
+                        ? {[K in keyof W]: StoreNode<W[K]>}[keyof W] | undefined
+                        : never
 };
 
 /** Génère l'objet JS "normal" équivalent à un noeud de store. */
 export type NodeToType<T> = T extends StoreListNode<infer U>
     ? EntityToType<U>[]
-    : T extends StoreNode<infer V>
-        ? EntityToType<V>
-        : {
-              [P in keyof T]?: T[P] extends EntityField<infer W>
-                  ? W["fieldType"]
-                  : T[P] extends StoreNode<infer X>
-                      ? EntityToType<X>
-                      : T[P] extends StoreListNode<infer Y> ? EntityToType<Y>[] : T[P]
-          };
+    : T extends StoreMapNode<infer Z>
+        ? {[key: string]: EntityToType<Z>}
+        : T extends StoreNode<infer V>
+            ? EntityToType<V>
+            : {
+                  [P in keyof T]?: T[P] extends EntityField<infer W>
+                      ? W["fieldType"]
+                      : T[P] extends StoreNode<infer X>
+                          ? EntityToType<X>
+                          : T[P] extends StoreListNode<infer Y> ? EntityToType<Y>[] : T[P]
+              };
 
 /** Noeud de store simple. */
 export type StoreNode<T extends Entity = any> = EntityToNode<T> & {
@@ -29,6 +38,13 @@ export type StoreNode<T extends Entity = any> = EntityToNode<T> & {
     /** isEdit temporaire, traité par `addFormProperties`. */
     $tempEdit?: boolean | (() => boolean);
 
+    /** @internal */
+    /** Validateurs de noeud temporaires, traités par `addFormProperties`. */
+    $tempValidators?: NodeValidator[];
+
+    /** Métadonnées. */
+    readonly $entity: T;
+
     /** Vide l'objet (récursivement). */
     clear(): void;
 
@@ -48,15 +64,43 @@ export interface StoreListNode<T extends Entity = any, U = {}> extends IObservab
     /** Métadonnées. */
     readonly $entity: T;
 
+    /** Champ identifiant les éléments de la liste. */
+    readonly $keyField?: string;
+
     /** Fonction de transformation du noeud de la liste. */
     $transform?: (source: StoreNode<T>) => U | void;
 
+    /** Insère un élément dans la liste à l'index donné. */
+    insertNode(index: number, item: EntityToType<T>): void;
+
+    /** Déplace un élément de la liste. */
+    moveNode(from: number, to: number): void;
+
     /** Ajoute un élément à la liste. */
     pushNode(...items: EntityToType<T>[]): void;
 
+    /** Retire un élément de la liste. */
+    removeNode(node: StoreNode<T>): boolean;
+
     /** Reconstruit le noeud de liste à partir de la liste fournie. */
     replaceNodes(data: EntityToType<T>[]): void;
 
     /** Met à jour le noeud de liste à partir de la liste fournie. */
     setNodes(data: EntityToType<T>[]): void;
 }
+
+/** Noeud de store dictionnaire. C'est une map observable de noeuds de store simples, indexés par une clé. */
+export interface StoreMapNode<T extends Entity = any> extends ObservableMap<string, StoreNode<T>> {
+    /** @internal */
+    /** isEdit temporaire, traité par `addFormProperties`. */
+    $tempEdit?: boolean | (() => boolean);
+
+    /** Métadonnées. */
+    readonly $entity: T;
+
+    /** Reconstruit le noeud dictionnaire à partir de l'objet fourni. */
+    replaceNodes(data: {[key: string]: EntityToType<T>}): void;
+
+    /** Met à jour le noeud dictionnaire à partir de l'objet fourni. */
+    setNodes(data: {[key: string]: EntityToType<T>}): void;
+}
@@ -1,8 +1,8 @@
-import {isObservableArray} from "mobx";
+import {isObservableArray, isObservableMap} from "mobx";
 
 import {Entity, EntityField} from "./entity";
-import {FormListNode, FormNode} from "./form";
-import {StoreListNode, StoreNode} from "./store";
+import {FormListNode, FormMapNode, FormNode} from "./form";
+import {StoreListNode, StoreMapNode, StoreNode} from "./store";
 import {RegexValidator, Validator} from "./validation";
 
 export function isEntityField(data: any): data is EntityField {
@@ -13,7 +13,9 @@ export function isRegex(validator: Validator): validator is RegexValidator {
     return validator && !!(validator as RegexValidator).regex;
 }
 
-export function isAnyStoreNode<T extends Entity = any>(data: any): data is StoreNode<T> | StoreListNode<T> {
+export function isAnyStoreNode<T extends Entity = any>(
+    data: any
+): data is StoreNode<T> | StoreListNode<T> | StoreMapNode<T> {
     return data && !!(data as StoreNode).set && !!(data as StoreNode).clear;
 }
 
@@ -21,11 +23,17 @@ export function isStoreListNode<T extends Entity = any>(data: any): data is Stor
     return isAnyStoreNode(data) && isObservableArray(data);
 }
 
+export function isStoreMapNode<T extends Entity = any>(data: any): data is StoreMapNode<T> {
+    return isAnyStoreNode(data) && isObservableMap(data);
+}
+
 export function isStoreNode<T extends Entity = any>(data: any): data is StoreNode<T> {
-    return isAnyStoreNode(data) && !isObservableArray(data);
+    return isAnyStoreNode(data) && !isObservableArray(data) && !isObservableMap(data);
 }
 
-export function isAnyFormNode<T extends Entity = any>(data: any): data is FormNode<T> | FormListNode<T> {
+export function isAnyFormNode<T extends Entity = any>(
+    data: any
+): data is FormNode<T> | FormListNode<T> | FormMapNode<T> {
     return data && !!(data as FormNode).form;
 }
 
@@ -36,3 +44,7 @@ export function isFormNode<T extends Entity = any>(data: any): data is FormNode<
 export function isFormListNode<T extends Entity = any>(data: any): data is FormListNode<T> {
     return isStoreListNode(data) && isAnyFormNode(data);
 }
+
+export function isFormMapNode<T extends Entity = any>(data: any): data is FormMapNode<T> {
+    return isStoreMapNode(data) && isAnyFormNode(data);
+}
@@ -1,6 +1,8 @@
 export interface Error {
-    /** Surcharge du message d'erreur standard `focus.validation.${type}` */
+    /** Surcharge du message d'erreur standard `focus.validation.${type}`, qui reçoit les mêmes paramètres d'interpolation. */
     errorMessage?: string;
+    /** Le validateur produit un avertissement non bloquant au lieu d'une erreur. */
+    isWarning?: boolean;
 }
 
 export interface NumberValidator extends Error {
@@ -18,6 +20,8 @@ export interface StringValidator extends Error {
 
 export interface RegexValidator extends Error {
     regex: RegExp;
+    /** Nom (ou clé i18n) du format attendu, repris dans le message d'erreur. */
+    name?: string;
 }
 
 export interface EmailValidator extends Error {
@@ -26,6 +30,42 @@ export interface EmailValidator extends Error {
 
 export interface DateValidator extends Error {
     type: "date";
+    /** Date minimale (ISO ou `Date`). */
+    min?: string | Date;
+    /** Date maximale (ISO ou `Date`). */
+    max?: string | Date;
+    /** Interdit les dates postérieures à aujourd'hui. */
+    notInFuture?: boolean;
+}
+
+/** Validateur de SIRET (14 chiffres, clé de Luhn). */
+export interface SiretValidator extends Error {
+    type: "siret";
+}
+
+/** Validateur de SIREN (9 chiffres, clé de Luhn). */
+export interface SirenValidator extends Error {
+    type: "siren";
+}
+
+/** Validateur d'IBAN (format et clé de contrôle). */
+export interface IbanValidator extends Error {
+    type: "iban";
+}
+
+/** Validateur de BIC. */
+export interface BicValidator extends Error {
+    type: "bic";
+}
+
+/** Validateur de numéro de téléphone français. */
+export interface PhoneValidator extends Error {
+    type: "phone";
+}
+
+/** Validateur de code postal français. */
+export interface PostalCodeValidator extends Error {
+    type: "postalCode";
 }
 
 export interface LegacyFunctionValidator extends Error {
@@ -36,13 +76,34 @@ export interface LegacyFunctionValidator extends Error {
     };
 }
 
-export type FunctionValidator = (value: any) => string | false | undefined;
+/** Validateur par fonction, qui retourne le message d'erreur s'il y en a un, ou `{warning}` pour un avertissement non bloquant. */
+export type FunctionValidator = (value: any) => string | false | undefined | {warning: string};
+
+/** Validateur asynchrone (par exemple, une vérification d'unicité sur le serveur), appelé après un délai de saisie. */
+export interface AsyncValidator extends Error {
+    type: "async";
+    /** Fonction de validation, qui retourne le message d'erreur s'il y en a un. */
+    value: (value: any) => Promise<string | false | undefined>;
+}
+
+/**
+ * Validateur de noeud, qui reçoit les valeurs de tout le noeud (issues de `toFlatValues`) pour valider plusieurs champs entre eux.
+ * Retourne un objet contenant le message d'erreur de chaque champ en erreur.
+ */
+export type NodeValidator<T = any> = (node: T) => {[P in keyof T]?: string | false} | undefined | void;
 
 export type Validator =
+    | AsyncValidator
+    | BicValidator
     | DateValidator
     | EmailValidator
     | FunctionValidator
+    | IbanValidator
     | NumberValidator
+    | PhoneValidator
+    | PostalCodeValidator
     | RegexValidator
+    | SirenValidator
+    | SiretValidator
     | StringValidator
     | LegacyFunctionValidator;
@@ -1,32 +1,128 @@
 import * as i18next from "i18next";
-import {isFunction, isNumber} from "lodash";
+import {flatMap, isArray, isFunction, isNumber, uniq} from "lodash";
 import moment from "moment";
 
-import {EntityField, isRegex, Validator} from "./types";
+import {AsyncValidator, DateValidator, EntityField, isRegex, NodeValidator, Validator} from "./types";
 
+const BIC_REGEX = /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/;
+const IBAN_REGEX = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+const PHONE_REGEX = /^(?:(?:\+|00)33|0)[1-9]\d{8}$/;
+const POSTAL_CODE_REGEX = /^\d{5}$/;
 const EMAIL_REGEX = /^(([^<>()[\]\\.,;:\s@\"]+(\.[^<>()[\]\\.,;:\s@\"]+)*)|(\".+\"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
 
-/** Récupère l'erreur associée au champ. Si la valeur vaut `undefined`, alors il n'y en a pas. */
-export function validateField({$field, value}: EntityField): string | undefined {
-    const {
-        isRequired,
-        domain: {validator}
-    } = $field;
+/**
+ * Récupère l'erreur associée au champ. Si la valeur vaut `undefined`, alors il n'y en a pas.
+ * @param field Le champ.
+ * @param node Le noeud qui contient le champ, pour évaluer une règle `isRequired` conditionnelle.
+ */
+export function validateField(field: EntityField, node?: {}): string | undefined {
+    const {$field, value} = field;
 
-    // On vérifie que le champ n'est pas vide et obligatoire.
-    if (isRequired && (value === undefined || value === null || value === "")) {
-        return i18next.t("focus.validation.required");
+    // On vérifie que le champ n'est pas vide (ou une liste vide) et obligatoire.
+    if (
+        evaluateFieldRule($field.isRequired, node) &&
+        (value === undefined || value === null || value === "" || (isArray(value) && !value.length))
+    ) {
+        return i18next.t("focus.validation.required", {label: i18next.t($field.label)});
     }
 
     // On applique le validateur du domaine.
+    return validateDomain(field, false);
+}
+
+/**
+ * Récupère l'avertissement (non bloquant) associé au champ, issu des validateurs du domaine marqués comme avertissements.
+ * Si la valeur vaut `undefined`, alors il n'y en a pas.
+ * @param field Le champ.
+ */
+export function getFieldWarning(field: EntityField): string | undefined {
+    return validateDomain(field, true);
+}
+
+/**
+ * Evalue une règle de champ (`isRequired` ou `isReadonly`), qui peut être une fonction du noeud qui contient le champ.
+ * @param rule La règle.
+ * @param node Le noeud qui contient le champ. Sans noeud, une règle conditionnelle n'est jamais vérifiée.
+ */
+export function evaluateFieldRule(rule: boolean | ((node: any) => boolean) | undefined, node?: {}) {
+    return isFunction(rule) ? !!node && rule(node) : !!rule;
+}
+
+/** Récupère les validateurs asynchrones du champ. */
+export function getAsyncValidators({$field}: EntityField) {
+    const {validator} = $field.domain;
+    return (validator ? (Array.isArray(validator) ? validator : [validator]) : []).filter(
+        v => !isFunction(v) && !isRegex(v) && v.type === "async"
+    ) as AsyncValidator[];
+}
+
+/**
+ * Récupère l'erreur associée au champ issue de ses validateurs asynchrones. Si la valeur vaut `undefined`, alors il n'y en a pas.
+ * @param value La valeur du champ.
+ * @param validators Les validateurs asynchrones du champ.
+ */
+export async function validateFieldAsync(value: any, validators: AsyncValidator[]) {
+    if (value === undefined || value === null || !validators.length) {
+        return undefined;
+    }
+
+    const errors = (await Promise.all(validators.map(validator => validator.value(value)))).filter(
+        error => !!error
+    ) as string[];
+    if (errors.length) {
+        return errors.map(e => i18next.t(e)).join(", ");
+    }
+
+    return undefined;
+}
+
+/**
+ * Récupère les erreurs des champs d'un noeud issues de ses validateurs de noeud.
+ * @param values Les valeurs du noeud.
+ * @param validators Les validateurs de noeud.
+ */
+export function validateNode(values: {}, validators: NodeValidator[]) {
+    const errors: {[key: string]: string} = {};
+    for (const validator of validators) {
+        const result = validator(values) || {};
+        for (const key in result) {
+            const error = (result as any)[key];
+            if (error) {
+                errors[key] = errors[key] ? `${errors[key]}, ${i18next.t(error)}` : i18next.t(error);
+            }
+        }
+    }
+    return errors;
+}
+
+/** Erreur de validation : message (ou clé i18n), paramètres d'interpolation et niveau. */
+interface ValidationError {
+    message: string;
+    params?: {};
+    isWarning?: boolean;
+}
+
+/**
+ * Applique les validateurs du domaine d'un champ, et retourne les messages d'erreurs ou d'avertissements traduits.
+ * Pour un champ liste (`isList`), les validateurs sont appliqués à chaque élément, et chaque message n'apparaît qu'une fois.
+ * @param field Le champ.
+ * @param warnings Retourne les avertissements au lieu des erreurs.
+ */
+function validateDomain({$field, value}: EntityField, warnings: boolean) {
+    const {validator} = $field.domain;
     if (validator && value !== undefined && value !== null) {
-        const errors = validate(value, Array.isArray(validator) ? validator : [validator]);
+        const validators = Array.isArray(validator) ? validator : [validator];
+        const items: any[] = $field.isList && isArray(value) ? value : [value];
+        const errors = flatMap(items.filter(item => item !== undefined && item !== null), item =>
+            validate(item, validators)
+        ).filter(({isWarning = false}) => isWarning === warnings);
         if (errors.length) {
-            return errors.map(e => i18next.t(e)).join(", ");
+            // Le libellé du champ est disponible dans tous les messages.
+            const label = i18next.t($field.label);
+            return uniq(errors.map(({message, params}) => i18next.t(message, {label, ...params}))).join(", ");
         }
     }
 
-    // Pas d'erreur.
     return undefined;
 }
 
@@ -36,15 +132,26 @@ export function validateField({$field, value}: EntityField): string | undefined
  * @param validators Les validateurs.
  */
 function validate(value: any, validators?: Validator[]) {
-    const errors: string[] = [];
+    const errors: ValidationError[] = [];
     if (validators) {
         for (const validator of validators) {
             let error;
+            // Paramètres d'interpolation du message, dont le contexte i18n ("min", "max"...) qui sélectionne une variante du message.
+            let params: {context?: string; [key: string]: any} | undefined;
+            let isWarning: boolean | undefined;
             if (isFunction(validator)) {
-                error = validator(value);
+                const result = validator(value);
+                if (result && typeof result === "object") {
+                    error = result.warning;
+                    isWarning = true;
+                } else {
+                    error = result;
+                }
             } else {
+                isWarning = validator.isWarning;
                 if (isRegex(validator)) {
                     error = value && !validator.regex.test(value);
+                    params = {context: validator.name && "name", name: validator.name && i18next.t(validator.name)};
                 } else {
                     switch (validator.type) {
                         case "email":
@@ -55,25 +162,53 @@ function validate(value: any, validators?: Validator[]) {
                                 break;
                             }
                             const n = +value;
+                            const {max, min} = validator;
                             if (Number.isNaN(n) || !isNumber(n) || (validator.isInteger && !Number.isInteger(n))) {
                                 error = true;
+                            } else {
+                                error = (min !== undefined && n < min) || (max !== undefined && n > max);
+                                params = {context: getBoundsContext(min, max), max, min};
                             }
-                            const isMin = validator.min !== undefined && n < validator.min;
-                            const isMax = validator.max !== undefined && n > validator.max;
-                            error = isMin || isMax;
                             break;
                         case "string":
                             const text = `${value || ""}`;
-                            const isMinLength = text.length < (validator.minLength || 0);
-                            const isMaxLength = validator.maxLength !== undefined && text.length > validator.maxLength;
+                            const {maxLength, minLength} = validator;
+                            const isMinLength = text.length < (minLength || 0);
+                            const isMaxLength = maxLength !== undefined && text.length > maxLength;
                             error = isMinLength || isMaxLength;
+                            params = {context: getBoundsContext(minLength, maxLength), maxLength, minLength};
                             break;
                         case "date":
-                            error = !moment(value, moment.ISO_8601).isValid();
+                            error = validateDate(value, validator);
+                            params = {
+                                max: validator.max && moment(validator.max).format("L"),
+                                min: validator.min && moment(validator.min).format("L")
+                            };
+                            break;
+                        case "siret":
+                            error = value && !isSiretValid(normalize(value));
+                            break;
+                        case "siren":
+                            const siren = normalize(value);
+                            error = value && (!/^\d{9}$/.test(siren) || !isLuhnValid(siren));
+                            break;
+                        case "iban":
+                            error = value && !isIbanValid(normalize(value).toUpperCase());
+                            break;
+                        case "bic":
+                            error = value && !BIC_REGEX.test(normalize(value).toUpperCase());
+                            break;
+                        case "phone":
+                            error = value && !PHONE_REGEX.test(normalize(value).replace(/[.-]/g, ""));
+                            break;
+                        case "postalCode":
+                            error = value && !POSTAL_CODE_REGEX.test(normalize(value));
                             break;
                         case "function":
                             error = !validator.value(value) && validator.options.translationKey;
                             break;
+                        case "async":
+                            break; // Traité par `validateFieldAsync`.
                     }
                 }
 
@@ -84,10 +219,104 @@ function validate(value: any, validators?: Validator[]) {
             }
 
             if (error) {
-                errors.push(error as string); // bug TS (!!)
+                errors.push({message: error as string, params, isWarning}); // bug TS (!!)
             }
         }
     }
 
     return errors;
 }
+
+/**
+ * Détermine le contexte i18n du message d'erreur d'un validateur avec des bornes, selon les bornes renseignées.
+ * @param min La borne minimale.
+ * @param max La borne maximale.
+ */
+function getBoundsContext(min?: number, max?: number) {
+    return min !== undefined && max !== undefined
+        ? "range"
+        : min !== undefined
+            ? "min"
+            : max !== undefined
+                ? "max"
+                : undefined;
+}
+
+/**
+ * Valide une date, et vérifie qu'elle respecte les bornes du validateur.
+ * @param value La date.
+ * @param validator Le validateur de date.
+ * @returns `true` si la date est invalide, la clé du message d'erreur si elle est hors bornes.
+ */
+function validateDate(value: any, {errorMessage, max, min, notInFuture}: DateValidator) {
+    const date = moment(value, moment.ISO_8601);
+    if (!date.isValid()) {
+        return true;
+    } else if (min && date.isBefore(moment(min), "day")) {
+        return errorMessage || "focus.validation.dateMin";
+    } else if (max && date.isAfter(moment(max), "day")) {
+        return errorMessage || "focus.validation.dateMax";
+    } else if (notInFuture && date.isAfter(moment(), "day")) {
+        return errorMessage || "focus.validation.dateInFuture";
+    }
+    return false;
+}
+
+/** Retire les espaces d'une valeur saisie. */
+function normalize(value: any) {
+    return `${value}`.replace(/\s/g, "");
+}
+
+/**
+ * Vérifie la clé de Luhn d'une suite de chiffres.
+ * @param digits Les chiffres.
+ */
+function isLuhnValid(digits: string) {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = +digits[digits.length - 1 - i];
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * Vérifie un numéro de SIRET.
+ * @param siret Le SIRET.
+ */
+function isSiretValid(siret: string) {
+    if (!/^\d{14}$/.test(siret)) {
+        return false;
+    }
+
+    // Les établissements de La Poste ne respectent pas la clé de Luhn : la somme de leurs chiffres est un multiple de 5.
+    if (siret.startsWith("356000000")) {
+        return siret.split("").reduce((sum, digit) => sum + +digit, 0) % 5 === 0;
+    }
+
+    return isLuhnValid(siret);
+}
+
+/**
+ * Vérifie un IBAN (format et clé de contrôle modulo 97).
+ * @param iban L'IBAN.
+ */
+function isIbanValid(iban: string) {
+    if (!IBAN_REGEX.test(iban)) {
+        return false;
+    }
+
+    // On place les 4 premiers caractères à la fin et on convertit les lettres en nombres (A = 10, B = 11...).
+    const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+    let remainder = 0;
+    for (const char of rearranged.split("")) {
+        remainder = +`${remainder}${parseInt(char, 36)}` % 97;
+    }
+    return remainder === 1;
+}
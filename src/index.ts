@@ -13,11 +13,13 @@ export {advancedSearchFor, listFor, tableFor, timelineFor} from "./collections";
 export {Panel, Popin} from "./components";
 export {
     autocompleteFor,
+    autoFormFor,
     Form,
     fieldFor,
     makeField,
     makeFormActions,
     makeFormNode,
+    makeFormWizard,
     patchField,
     selectFor,
     stringFor
@@ -40,7 +40,7 @@ import {
     SelectRadioStyle,
     SelectStyle
 } from "../components";
-import {FieldStyle, FormStyle} from "../entity";
+import {AutoFormStyle, FieldStyle, FormStyle} from "../entity";
 import {MessageCenter} from "../message";
 import {LoadingBarStyle} from "../network";
 
@@ -115,6 +115,7 @@ export interface LayoutStyleProviderProps {
     actionBar?: ActionBarStyle;
     advancedSearch?: AdvancedSearchStyle;
     autocomplete?: AutocompleteStyle;
+    autoForm?: AutoFormStyle;
     booleanRadio?: BooleanRadioStyle;
     buttonBTT?: ButtonBackToTopStyle;
     contextualActions?: ContextualActionsStyle;
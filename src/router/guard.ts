@@ -0,0 +1,45 @@
+/** Garde de navigation : précise si on peut quitter la vue courante, éventuellement après confirmation de l'utilisateur. */
+export type LeaveGuard = () => boolean | Promise<boolean>;
+
+/** Gardes de navigation enregistrées. */
+const guards: LeaveGuard[] = [];
+
+/**
+ * Enregistre une garde de navigation, consultée avant de quitter la vue courante (changement d'URL, `router.to()` ou `setView()`).
+ * @param guard La garde.
+ * @returns Le disposer de la garde.
+ */
+export function addLeaveGuard(guard: LeaveGuard) {
+    guards.push(guard);
+    return () => {
+        const index = guards.indexOf(guard);
+        if (index !== -1) {
+            guards.splice(index, 1);
+        }
+    };
+}
+
+/**
+ * Consulte les gardes de navigation enregistrées, dans l'ordre, jusqu'à la première qui refuse.
+ * @returns Le résultat directement si aucune garde n'a demandé de confirmation, une promesse sinon.
+ */
+export function canLeave(): boolean | Promise<boolean> {
+    return checkGuards(guards.slice());
+}
+
+/**
+ * Consulte les gardes données, dans l'ordre, jusqu'à la première qui refuse.
+ * @param list Les gardes.
+ */
+function checkGuards(list: LeaveGuard[]): boolean | Promise<boolean> {
+    for (let i = 0; i < list.length; i++) {
+        const result = list[i]();
+        if (result === false) {
+            return false;
+        } else if (result !== true) {
+            // On attend la confirmation de l'utilisateur avant de consulter les gardes suivantes.
+            return result.then(ok => ok && checkGuards(list.slice(i + 1)));
+        }
+    }
+    return true;
+}
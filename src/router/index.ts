@@ -1,9 +1,10 @@
 import {isEmpty} from "lodash";
 import {action, IObservableObject, observable, reaction, runInAction} from "mobx";
-import {RouteConfig, RouteEnterEvent, Router} from "yester";
+import {RouteChangeEvent, RouteConfig, RouteEnterEvent, Router} from "yester";
 
+import {addLeaveGuard, canLeave, LeaveGuard} from "./guard";
 import {ViewStore} from "./store";
-export {IObservableObject, ViewStore};
+export {addLeaveGuard, IObservableObject, LeaveGuard, ViewStore};
 
 export interface RouterConfig<E = "error"> {
     /** Mode du routeur. Par défaut: "hash" */
@@ -34,6 +35,9 @@ export function makeRouter<Store extends ViewStore<any, any>, E = "error">(
     /** Code d'erreur en cours. */
     const errorCode = observable.box<string>(undefined);
 
+    /** URL vers laquelle la navigation a déjà été acceptée par les gardes de navigation (ou qu'on restaure après un refus). */
+    let allowedUrl: string | undefined;
+
     /** Récupère l'URL courante. */
     function getUrl() {
         if (routerMode === "browser") {
@@ -55,6 +59,46 @@ export function makeRouter<Store extends ViewStore<any, any>, E = "error">(
         }
     }
 
+    /**
+     * Consulte les gardes de navigation avant de quitter la page courante. En cas de refus, le routeur restaure l'URL précédente.
+     * @param event L'évènement de changement de route.
+     */
+    async function beforeLeave({oldPath, newPath}: RouteChangeEvent) {
+        if (newPath === allowedUrl) {
+            allowedUrl = undefined;
+            return true;
+        }
+
+        // Une navigation qui reste sur la même page d'un store (changement de sous-vue) ne consulte pas les gardes.
+        if (oldPath && !newPath.startsWith(`/${errorPageName}/`) && !oldPath.startsWith(`/${errorPageName}/`)) {
+            const store = stores.find(s => !!s.parseUrl(oldPath) && !!s.parseUrl(newPath));
+            if (store && !store.isPageLeave(store.parseUrl(oldPath)!, store.parseUrl(newPath)!)) {
+                return true;
+            }
+        }
+
+        // Une garde en erreur vaut un refus.
+        let result: boolean;
+        try {
+            result = await canLeave();
+        } catch {
+            result = false;
+        }
+        if (!result) {
+            allowedUrl = oldPath;
+        }
+        return result;
+    }
+
+    /**
+     * Redirige vers l'URL donnée, sans consulter à nouveau les gardes de navigation (la navigation en cours les a déjà consultées).
+     * @param url L'URL.
+     */
+    function redirectTo(url: string) {
+        allowedUrl = url;
+        return {redirect: url, replace: true};
+    }
+
     /**
      * Enregistre le store i comme actif (et les autres comme inactifs.)
      *
@@ -90,23 +134,24 @@ export function makeRouter<Store extends ViewStore<any, any>, E = "error">(
                                 };
                                 if (err) {
                                     // Cas de l'erreur : on redirige vers la page d'erreur avec le code.
-                                    return {redirect: `/${errorPageName}/${err}`, replace: true};
+                                    return redirectTo(`/${errorPageName}/${err}`);
                                 } else if (redirect) {
                                     // Cas de la redirection : on récupère la nouvelle URL et on redirige dessus, si on n'y est pas déjà.
                                     const url = store.getUrl({...params, ...redirect});
                                     if (url !== getUrl()) {
-                                        return {redirect: url, replace: true};
+                                        return redirectTo(url);
                                     }
                                 }
                             }
 
                             runInAction("setView", () => {
-                                store.setView(params, true); // On met à jour la vue avec les paramètres d'URL.
+                                store.updateView(params, true); // On met à jour la vue avec les paramètres d'URL.
                                 updateActivity(i); // On met à jour l'activité.
                             });
 
                             return undefined;
-                        }
+                        },
+                        beforeLeave
                     } as RouteConfig)
             ),
 
@@ -116,7 +161,8 @@ export function makeRouter<Store extends ViewStore<any, any>, E = "error">(
                 beforeEnter: action("beforeEnter", ({params}: RouteEnterEvent) => {
                     errorCode.set(params.code);
                     updateActivity(stores.length);
-                })
+                }),
+                beforeLeave
             },
 
             // On ajoute le wildcard pour les URLs non matchées.
@@ -125,24 +171,25 @@ export function makeRouter<Store extends ViewStore<any, any>, E = "error">(
                 beforeEnter: ({newPath, oldPath}) => {
                     if (newPath === "/") {
                         // Si on a pas de route initiale, on redirige vers le store principal.
-                        return {redirect: `/${stores[0].prefix}`, replace: true};
+                        return redirectTo(`/${stores[0].prefix}`);
                     } else {
                         // On traite le handler personnalisé.
                         if (config.notfoundHandler) {
                             const result = config.notfoundHandler(newPath);
                             if (result) {
                                 if (result === true) {
-                                    return {redirect: oldPath || getUrl(), replace: true}; // On reste où on est.
+                                    return redirectTo(oldPath || getUrl()); // On reste où on est.
                                 } else {
-                                    return {redirect: result, replace: true}; // On redirige ailleurs.
+                                    return redirectTo(result); // On redirige ailleurs.
                                 }
                             }
                         }
 
                         // Sinon on redirige vers la page d'erreur.
-                        return {redirect: `/${errorPageName}/${notfoundCode}`, replace: true};
+                        return redirectTo(`/${errorPageName}/${notfoundCode}`);
                     }
-                }
+                },
+                beforeLeave
             }
         ],
         {type: routerMode}
@@ -150,15 +197,19 @@ export function makeRouter<Store extends ViewStore<any, any>, E = "error">(
 
     stores.forEach((store, i) => {
         // On donne les handlers d'erreur et d'activité à chaque store.
-        store.handleError = errCode => router.navigate(`/${errorPageName}/${errCode}`);
+        store.handleError = errCode => {
+            allowedUrl = `/${errorPageName}/${errCode}`;
+            router.navigate(allowedUrl);
+        };
         store.updateActivity = () => updateActivity(i);
 
         // On met en place les réactions sur le currentPath de chaque ViewStore.
         reaction(
             () => store.currentPath,
             currentPath => {
-                // Si le chemin à effectivement changé, alors on met à jour l'URL.
+                // Si le chemin à effectivement changé, alors on met à jour l'URL (la navigation a déjà été acceptée par `setView`).
                 if (!isEmpty(store.currentView) && currentPath !== getUrl()) {
+                    allowedUrl = currentPath;
                     updateUrl(currentPath);
                 }
             }
@@ -1,6 +1,8 @@
 import {isEqual, mapValues} from "lodash";
 import {action, computed, observable} from "mobx";
 
+import {canLeave} from "./guard";
+
 /** Crée le type de vue associé à un objet. */
 export type View<T> = {readonly [P in keyof T]: T[P] | undefined};
 
@@ -10,6 +12,8 @@ export interface ViewStoreConfig<V, N> {
     beforeEnter?: (view: View<V>) => {redirect?: Partial<V>; errorCode?: string} | undefined;
     /** Le préfixe du store. */
     prefix?: N;
+    /** Paramètres de sous-vue (onglet par exemple) : une navigation qui ne modifie qu'eux reste sur la même page, et ne consulte donc pas les gardes de navigation. */
+    subViewParams?: (keyof V)[];
     /** Objet de vue, représenté dans l'URL. L'ordre des paramètres compte. */
     view: View<V>;
 }
@@ -38,6 +42,10 @@ export class ViewStore<V, N extends string> {
     /** Préfixe éventuel du store. */
     readonly prefix?: N;
 
+    /** @internal */
+    /** Paramètres de sous-vue, dont la modification ne quitte pas la page. */
+    readonly subViewParams: (keyof V)[];
+
     /** @internal */
     /** Renseigné par le routeur. Permet de mettre le store actif dans le routeur. */
     updateActivity!: () => void;
@@ -50,10 +58,11 @@ export class ViewStore<V, N extends string> {
      * Construit un nouveau ViewStore.
      * @param config La configuration du store.
      */
-    constructor({beforeEnter, view, prefix}: ViewStoreConfig<V, N>) {
+    constructor({beforeEnter, view, prefix, subViewParams = []}: ViewStoreConfig<V, N>) {
         this.beforeEnter = beforeEnter;
         this.paramNames = Object.keys(view) as (keyof V)[];
         this.prefix = prefix;
+        this.subViewParams = subViewParams;
         this.view = mapValues(view, () => undefined);
     }
 
@@ -95,12 +104,69 @@ export class ViewStore<V, N extends string> {
     }
 
     /**
-     * Met à jour la vue courante.
+     * Précise si passer d'une vue à une autre quitte la page, c'est-à-dire modifie un paramètre qui n'est pas un paramètre de sous-vue.
+     * @internal
+     * @param from La vue de départ.
+     * @param to La vue d'arrivée.
+     */
+    isPageLeave(from: Partial<V>, to: Partial<V>) {
+        return this.paramNames.some(
+            param => this.subViewParams.indexOf(param) === -1 && String(from[param]) !== String(to[param])
+        );
+    }
+
+    /**
+     * Récupère la vue correspondant à une URL, si elle appartient au store.
+     * @internal
+     * @param url L'URL.
+     */
+    parseUrl(url: string): Partial<V> | undefined {
+        const prefix = this.prefix ? `/${this.prefix}` : "";
+        if (url !== prefix && !url.startsWith(`${prefix}/`)) {
+            return undefined;
+        }
+
+        const values = url
+            .substring(prefix.length + 1)
+            .split("/")
+            .filter(value => value !== "");
+        if (values.length > this.paramNames.length) {
+            return undefined;
+        }
+        return this.paramNames.reduce((view, param, i) => ({...(view as {}), [param]: values[i]}), {}) as Partial<V>;
+    }
+
+    /**
+     * Met à jour la vue courante, si les gardes de navigation l'acceptent.
      * @param view La vue souhaitée.
      * @param replace Ne fusionne pas la vue souhaitée avec la vue courante.
      */
     @action
     setView(view: Partial<V>, replace?: boolean) {
+        // Si on quitte la page, on consulte d'abord les gardes de navigation (formulaire modifié en cours d'édition par exemple).
+        const newView = (replace ? view : {...(this.currentView as {}), ...(view as {})}) as Partial<V>;
+        if (this.isPageLeave(this.currentView, newView)) {
+            const result = canLeave();
+            if (result === false) {
+                return;
+            } else if (result !== true) {
+                // Une garde en erreur vaut un refus.
+                result.catch(() => false).then(ok => ok && this.updateView(view, replace));
+                return;
+            }
+        }
+
+        this.updateView(view, replace);
+    }
+
+    /**
+     * Met à jour la vue courante, sans consulter les gardes de navigation (appelé par le routeur, qui l'a déjà fait).
+     * @internal
+     * @param view La vue souhaitée.
+     * @param replace Ne fusionne pas la vue souhaitée avec la vue courante.
+     */
+    @action
+    updateView(view: Partial<V>, replace?: boolean) {
         // On construit la nouvelle vue.
         const newView = (replace ? view : {...(this.currentView as {}), ...(view as {})}) as V;
 
@@ -112,11 +178,11 @@ export class ViewStore<V, N extends string> {
                 this.handleError(errorCode);
                 return;
             } else if (redirect) {
-                // Cas de la redirection : on réappelle `setView` avec la vue ainsi reprécisée.
+                // Cas de la redirection : on réappelle `updateView` avec la vue ainsi reprécisée.
                 const redirectedView = {...(newView as {}), ...(redirect as {})};
                 if (!isEqual(newView, redirectedView)) {
-                    // On ne rappelle pas `setView` si on est déjà dans le bon état, bien sûr.
-                    this.setView(redirectedView);
+                    // On ne rappelle pas `updateView` si on est déjà dans le bon état, bien sûr.
+                    this.updateView(redirectedView);
                     return;
                 }
             }
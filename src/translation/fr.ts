@@ -6,11 +6,19 @@ export const fr = {
     },
     button: {
         cancel: "Annuler",
+        create: "Créer",
+        delete: "Supprimer",
         edit: "Modifier",
         save: "Enregistrer"
     },
     detail: {
+        confirmDelete: "Voulez-vous vraiment supprimer cet élément ?",
+        confirmLeave:
+            "Le formulaire contient des modifications non enregistrées. Voulez-vous vraiment quitter la page ?",
+        confirmWarnings: "Le formulaire contient des avertissements. Voulez-vous tout de même l'enregistrer ?",
         deleted: "Élement supprimé avec succès",
+        restoreDraft:
+            "Des modifications non enregistrées ont été trouvées pour ce formulaire. Voulez-vous les restaurer ?",
         saved: "Élement enregistré avec succès"
     },
     dragLayer: {
@@ -73,14 +81,30 @@ export const fr = {
         unselected: ""
     },
     validation: {
+        bic: "Le BIC saisi est invalide",
         date: "La date saisie est invalide",
+        dateInFuture: "La date saisie ne peut pas être dans le futur",
+        dateMax: "La date saisie doit être antérieure au {{max}}",
+        dateMin: "La date saisie doit être postérieure au {{min}}",
         email: "L'email saisi est invalide.",
         function: "La valeur saisie est invalide",
+        iban: "L'IBAN saisi est invalide",
         montant: "Le montant saisi est invalide",
         number: "Le nombre saisi est invalide",
+        number_max: "Le nombre saisi doit être inférieur ou égal à {{max}}",
+        number_min: "Le nombre saisi doit être supérieur ou égal à {{min}}",
+        number_range: "Le nombre saisi doit être compris entre {{min}} et {{max}}",
+        phone: "Le numéro de téléphone saisi est invalide",
+        postalCode: "Le code postal saisi est invalide",
         pourcentage: "Le pourcentage saisi est invalide",
         regex: "La valeur saisie est invalide",
+        regex_name: "La valeur saisie ne respecte pas le format {{- name}}",
         required: "Le champ est obligatoire",
-        string: "Le texte saisi est invalide"
+        siren: "Le SIREN saisi est invalide",
+        siret: "Le SIRET saisi est invalide",
+        string: "Le texte saisi est invalide",
+        string_max: "Le texte saisi doit contenir au plus {{maxLength}} caractères",
+        string_min: "Le texte saisi doit contenir au moins {{minLength}} caractères",
+        string_range: "Le texte saisi doit contenir entre {{minLength}} et {{maxLength}} caractères"
     }
 };
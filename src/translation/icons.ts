@@ -35,6 +35,10 @@ export const icons = {
             library: "material",
             name: "clear"
         },
+        delete: {
+            library: "material",
+            name: "delete"
+        },
         edit: {
             library: "material",
             name: "edit"
@@ -103,6 +107,10 @@ export const icons = {
             library: "material",
             name: "add"
         },
+        remove: {
+            library: "material",
+            name: "delete"
+        },
         showAll: {
             library: "material",
             name: "arrow_forward"